@@ -0,0 +1,523 @@
+import {
+  Data,
+  DataType,
+  IntervalUnit,
+  makeVector,
+  TimeUnit,
+  UnionMode,
+  Vector,
+} from 'apache-arrow';
+
+/** How values are formatted for display. */
+export interface FormatOptions {
+  /** BCP 47 locale of the numbers, such as `de-DE`, the browser's by default */
+  locale?: string;
+  /**
+   * IANA time zone of the TIMESTAMP WITH TIME ZONE values, such as
+   * `Europe/Paris`. They are displayed in UTC by default.
+   */
+  timeZone?: string;
+}
+
+/** An INTERVAL value, split like DuckDB stores it. */
+export interface ArrowInterval {
+  months: number;
+  days: number;
+  nanoseconds: bigint;
+}
+
+const UNITS_PER_SECOND: Record<TimeUnit, bigint> = {
+  [TimeUnit.SECOND]: BigInt(1),
+  [TimeUnit.MILLISECOND]: BigInt(1000),
+  [TimeUnit.MICROSECOND]: BigInt(1000000),
+  [TimeUnit.NANOSECOND]: BigInt(1000000000),
+};
+
+/** Vectors wrapping single chunks, to reuse Arrow's own getters. */
+const chunkVectors = new WeakMap<Data, Vector>();
+
+function getWithArrow(data: Data, index: number): unknown {
+  let vector = chunkVectors.get(data);
+  if (!vector) {
+    vector = makeVector(data);
+    chunkVectors.set(data, vector);
+  }
+  return vector.get(index);
+}
+
+function pad(value: bigint | number, length = 2) {
+  return value.toString().padStart(length, '0');
+}
+
+function formatFraction(fraction: bigint, unit: TimeUnit) {
+  if (fraction === BigInt(0)) {
+    return '';
+  }
+  const digits = UNITS_PER_SECOND[unit].toString().length - 1;
+  return `.${pad(fraction, digits).replace(/0+$/, '')}`;
+}
+
+/** Formats a duration as `HH:MM:SS[.fraction]`, hours being unbounded. */
+function formatTimeOfDay(value: bigint, unit: TimeUnit) {
+  const sign = value < BigInt(0) ? '-' : '';
+  const absolute = value < BigInt(0) ? -value : value;
+  const perSecond = UNITS_PER_SECOND[unit];
+  const seconds = absolute / perSecond;
+  const hours = seconds / BigInt(3600);
+  const minutes = (seconds / BigInt(60)) % BigInt(60);
+  return `${sign}${pad(hours)}:${pad(minutes)}:${pad(
+    seconds % BigInt(60)
+  )}${formatFraction(absolute % perSecond, unit)}`;
+}
+
+function formatTimestamp(
+  value: bigint,
+  unit: TimeUnit,
+  timezone: string | null | undefined
+) {
+  const perSecond = UNITS_PER_SECOND[unit];
+  let seconds = value / perSecond;
+  let fraction = value % perSecond;
+  if (fraction < BigInt(0)) {
+    fraction += perSecond;
+    seconds -= BigInt(1);
+  }
+
+  const date = new Date(Number(seconds) * 1000);
+  if (Number.isNaN(date.getTime())) {
+    // Outside of the range of JS dates, e.g. DuckDB's infinity
+    return value.toString();
+  }
+
+  const [day, time] = date.toISOString().split('T');
+  return `${day} ${time.slice(0, 8)}${formatFraction(fraction, unit)}${
+    timezone ? 'Z' : ''
+  }`;
+}
+
+function formatDecimal(unscaled: bigint, scale: number) {
+  if (scale <= 0) {
+    return unscaled.toString();
+  }
+  const sign = unscaled < BigInt(0) ? '-' : '';
+  const digits = pad(unscaled < BigInt(0) ? -unscaled : unscaled, scale + 1);
+  return `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+}
+
+function readInterval(data: Data, index: number): ArrowInterval {
+  const values = data.values as Int32Array;
+  const unit = (data.type as DataType & {unit: IntervalUnit}).unit;
+
+  if (unit === IntervalUnit.MONTH_DAY_NANO) {
+    const view = new DataView(
+      values.buffer,
+      values.byteOffset + index * 16,
+      16
+    );
+    return {
+      months: view.getInt32(0, true),
+      days: view.getInt32(4, true),
+      nanoseconds: view.getBigInt64(8, true),
+    };
+  }
+
+  if (unit === IntervalUnit.DAY_TIME) {
+    return {
+      months: 0,
+      days: values[2 * index],
+      nanoseconds: BigInt(values[2 * index + 1]) * BigInt(1000000),
+    };
+  }
+
+  return {months: values[index], days: 0, nanoseconds: BigInt(0)};
+}
+
+/** Reads and converts the value at `index` of a single chunk. */
+function readDataValue(data: Data, index: number): unknown {
+  if (!data.getValid(index)) {
+    return null;
+  }
+
+  const type = data.type;
+
+  if (DataType.isDecimal(type)) {
+    // Decimals are read as unscaled big numbers
+    const unscaled = BigInt(String(getWithArrow(data, index)));
+    return type.scale === 0 ? unscaled : formatDecimal(unscaled, type.scale);
+  }
+
+  if (DataType.isTimestamp(type)) {
+    return formatTimestamp(
+      BigInt(data.values[index]),
+      type.unit,
+      type.timezone
+    );
+  }
+
+  if (DataType.isDate(type)) {
+    const date = new Date(getWithArrow(data, index) as number);
+    return Number.isNaN(date.getTime())
+      ? null
+      : date.toISOString().split('T')[0];
+  }
+
+  if (DataType.isTime(type)) {
+    return formatTimeOfDay(BigInt(data.values[index]), type.unit);
+  }
+
+  if (DataType.isInterval(type)) {
+    return readInterval(data, index);
+  }
+
+  if (DataType.isList(type) || DataType.isMap(type)) {
+    const offsets = data.valueOffsets;
+    const child = data.children[0];
+    const values: unknown[] = [];
+    for (let i = Number(offsets[index]); i < Number(offsets[index + 1]); i++) {
+      values.push(readDataValue(child, i));
+    }
+
+    if (DataType.isMap(type)) {
+      return new Map(
+        values.map((entry) => {
+          const {key, value} = entry as {key: unknown; value: unknown};
+          return [key, value];
+        })
+      );
+    }
+    return values;
+  }
+
+  if (DataType.isFixedSizeList(type)) {
+    const child = data.children[0];
+    return Array.from({length: type.listSize}, (_, i) =>
+      readDataValue(child, index * type.listSize + i)
+    );
+  }
+
+  if (DataType.isStruct(type)) {
+    const struct: Record<string, unknown> = {};
+    type.children.forEach((field, i) => {
+      struct[field.name] = readDataValue(data.children[i], index);
+    });
+    return struct;
+  }
+
+  if (DataType.isUnion(type)) {
+    const childIndex = type.typeIdToChildIndex[data.typeIds[index]];
+    const valueIndex =
+      type.mode === UnionMode.Dense ? data.valueOffsets[index] : index;
+    return readDataValue(data.children[childIndex], Number(valueIndex));
+  }
+
+  if (DataType.isDictionary(type) && data.dictionary) {
+    return getArrowValue(data.dictionary, Number(data.values[index]));
+  }
+
+  return getWithArrow(data, index);
+}
+
+/**
+ * Reads the value at `index` of a vector and converts it to a JS value that
+ * keeps the precision of its DuckDB type:
+ *
+ * - 64-bit integers and HUGEINTs (DECIMAL with a scale of 0) are bigints
+ * - other DECIMALs are exact decimal strings
+ * - DATE, TIME and TIMESTAMP are strings at the precision of their unit,
+ *   TIMESTAMPs with a time zone being suffixed with `Z`
+ * - INTERVALs are `ArrowInterval`s
+ * - BLOBs are `Uint8Array`s
+ * - LISTs are arrays, STRUCTs plain objects and MAPs `Map`s, with their
+ *   children converted recursively
+ * - UNIONs and ENUMs are converted to their underlying value
+ */
+export function getArrowValue(vector: Vector, index: number): unknown {
+  let offset = index;
+  for (const data of vector.data) {
+    if (offset < data.length) {
+      return readDataValue(data, offset);
+    }
+    offset -= data.length;
+  }
+  return null;
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/** The number format of a locale, the default one when it is not valid. */
+function getNumberFormat(locale = '') {
+  let format = numberFormats.get(locale);
+  if (!format) {
+    try {
+      format = new Intl.NumberFormat(locale || undefined);
+    } catch {
+      format = new Intl.NumberFormat();
+    }
+    numberFormats.set(locale, format);
+  }
+  return format;
+}
+
+const timeZoneFormats = new Map<string, Intl.DateTimeFormat | null>();
+
+/** Splits dates into their parts in a time zone, or null when it is not valid. */
+function getTimeZoneFormat(timeZone: string) {
+  if (!timeZoneFormats.has(timeZone)) {
+    try {
+      timeZoneFormats.set(
+        timeZone,
+        new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          year: 'numeric',
+          month: '2-digit',
+          day: '2-digit',
+          hour: '2-digit',
+          minute: '2-digit',
+          second: '2-digit',
+          hourCycle: 'h23',
+          timeZoneName: 'longOffset',
+        })
+      );
+    } catch {
+      timeZoneFormats.set(timeZone, null);
+    }
+  }
+  return timeZoneFormats.get(timeZone) ?? null;
+}
+
+const ZONED_TIMESTAMP_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})(\.\d+)?Z$/;
+
+/**
+ * Converts a TIMESTAMP WITH TIME ZONE, as read by `getArrowValue`, to a time
+ * zone, such as `2024-01-02 04:05:06.123+01:00`. Values out of the range of
+ * JS dates are left as is.
+ */
+function formatInTimeZone(value: string, timeZone: string) {
+  const match = ZONED_TIMESTAMP_PATTERN.exec(value);
+  const format = getTimeZoneFormat(timeZone);
+  if (!match || !format) {
+    return value;
+  }
+
+  const [, day, time, fraction = ''] = match;
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+  for (const {type, value} of format.formatToParts(
+    new Date(`${day}T${time}Z`)
+  )) {
+    parts[type] = value;
+  }
+  const offset = (parts.timeZoneName ?? '').replace('GMT', '') || '+00:00';
+  return `${parts.year?.padStart(4, '0')}-${parts.month}-${parts.day} ${
+    parts.hour
+  }:${parts.minute}:${parts.second}${fraction}${offset}`;
+}
+
+function getDecimalSymbols(locale?: string) {
+  const parts = getNumberFormat(locale).formatToParts(11111.1);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+}
+
+/** Formats an exact decimal string with the locale separators. */
+function formatDecimalString(value: string, locale?: string) {
+  const {group, decimal} = getDecimalSymbols(locale);
+  const [, sign, integer, fraction] = /^(-?)(\d*)(?:\.(\d*))?$/.exec(value) ?? [
+    '',
+    '',
+    value,
+  ];
+  const groupedInteger = integer.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  return `${sign}${groupedInteger}${
+    fraction !== undefined ? `${decimal}${fraction}` : ''
+  }`;
+}
+
+function formatBlob(value: Uint8Array) {
+  return Array.from(value, (byte) =>
+    byte >= 0x20 && byte < 0x7f && byte !== 0x5c
+      ? String.fromCharCode(byte)
+      : `\\x${byte.toString(16).toUpperCase().padStart(2, '0')}`
+  ).join('');
+}
+
+function formatInterval({months, days, nanoseconds}: ArrowInterval) {
+  const plural = (count: number, unit: string) =>
+    `${count} ${unit}${Math.abs(count) === 1 ? '' : 's'}`;
+  const parts: string[] = [];
+  const years = Math.trunc(months / 12);
+  if (years !== 0) {
+    parts.push(plural(years, 'year'));
+  }
+  if (months % 12 !== 0) {
+    parts.push(plural(months % 12, 'month'));
+  }
+  if (days !== 0) {
+    parts.push(plural(days, 'day'));
+  }
+  if (nanoseconds !== BigInt(0) || parts.length === 0) {
+    parts.push(formatTimeOfDay(nanoseconds, TimeUnit.NANOSECOND));
+  }
+  return parts.join(' ');
+}
+
+function isNestedType(type: DataType) {
+  return (
+    DataType.isList(type) ||
+    DataType.isFixedSizeList(type) ||
+    DataType.isStruct(type) ||
+    DataType.isMap(type) ||
+    DataType.isUnion(type)
+  );
+}
+
+/** Formats a value nested in a LIST, STRUCT or MAP, like DuckDB does. */
+function formatNestedValue(value: unknown, type: DataType | null): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+
+  if (Array.isArray(value)) {
+    const childType = type?.children[0]?.type ?? null;
+    return `[${value.map((v) => formatNestedValue(v, childType)).join(', ')}]`;
+  }
+
+  if (value instanceof Map) {
+    const entryTypes = type?.children[0]?.type.children ?? [];
+    return `{${[...value]
+      .map(
+        ([k, v]) =>
+          `${formatNestedValue(
+            k,
+            entryTypes[0]?.type ?? null
+          )}=${formatNestedValue(v, entryTypes[1]?.type ?? null)}`
+      )
+      .join(', ')}}`;
+  }
+
+  if (typeof value === 'string') {
+    return type && !DataType.isUtf8(type) && !DataType.isDictionary(type)
+      ? value
+      : `'${value.replace(/'/g, "''")}'`;
+  }
+
+  if (value instanceof Uint8Array) {
+    return formatBlob(value);
+  }
+
+  if (type && DataType.isInterval(type)) {
+    return formatInterval(value as ArrowInterval);
+  }
+
+  if (typeof value === 'object') {
+    const fields = type && DataType.isStruct(type) ? type.children : null;
+    const struct = value as Record<string, unknown>;
+    return `{${(
+      fields ?? Object.keys(struct).map((name) => ({name, type: null}))
+    )
+      .map(
+        (field) =>
+          `'${field.name.replace(/'/g, "''")}': ${formatNestedValue(
+            struct[field.name],
+            field.type
+          )}`
+      )
+      .join(', ')}}`;
+  }
+
+  return String(value);
+}
+
+/** Formats a value converted by `getArrowValue` for display. */
+export function formatArrowValue(
+  value: unknown,
+  type: DataType,
+  options: FormatOptions = {}
+): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+
+  if (isNestedType(type)) {
+    // The member type of a UNION value is unknown, but strings are only
+    // quoted when nested
+    return DataType.isUnion(type) && typeof value === 'string'
+      ? value
+      : formatNestedValue(value, DataType.isUnion(type) ? null : type);
+  }
+
+  if (DataType.isDecimal(type)) {
+    return formatDecimalString(String(value), options.locale);
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return getNumberFormat(options.locale).format(value);
+  }
+
+  if (
+    DataType.isTimestamp(type) &&
+    type.timezone &&
+    options.timeZone &&
+    typeof value === 'string'
+  ) {
+    return formatInTimeZone(value, options.timeZone);
+  }
+
+  if (value instanceof Uint8Array) {
+    return formatBlob(value);
+  }
+
+  if (DataType.isInterval(type)) {
+    return formatInterval(value as ArrowInterval);
+  }
+
+  return String(value);
+}
+
+/** Broad category of a type, used to style its cells. */
+export function getArrowTypeCategory(
+  type: DataType
+): 'number' | 'temporal' | 'nested' | 'other' {
+  if (
+    DataType.isInt(type) ||
+    DataType.isFloat(type) ||
+    DataType.isDecimal(type)
+  ) {
+    return 'number';
+  }
+
+  if (
+    DataType.isDate(type) ||
+    DataType.isTimestamp(type) ||
+    DataType.isTime(type) ||
+    DataType.isInterval(type)
+  ) {
+    return 'temporal';
+  }
+
+  return isNestedType(type) ? 'nested' : 'other';
+}
+
+/** Short preview of a nested value, such as `[3 items]` or `{a, b, …}`. */
+export function formatNestedPreview(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.length} item${value.length === 1 ? '' : 's'}]`;
+  }
+
+  if (value instanceof Map) {
+    return `{${value.size} entr${value.size === 1 ? 'y' : 'ies'}}`;
+  }
+
+  if (typeof value === 'object' && !(value instanceof Uint8Array)) {
+    const keys = Object.keys(value);
+    return `{${keys.slice(0, 3).join(', ')}${keys.length > 3 ? ', …' : ''}}`;
+  }
+
+  return String(value);
+}
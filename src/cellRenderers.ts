@@ -0,0 +1,149 @@
+import {DataType, Type} from 'apache-arrow';
+import {html, TemplateResult} from 'lit';
+import {FormatOptions} from './arrowValues.js';
+
+/** A non-NULL cell to render. */
+export interface CellContext {
+  /** The value, as read by `getArrowValue` */
+  value: unknown;
+  column: string;
+  type: DataType;
+  /** The value as displayed by default */
+  text: string;
+  /** The locale and time zone of the grid */
+  options: FormatOptions;
+}
+
+/** Renders the content of a cell, as a Lit template or as text. */
+export type CellRenderer = (cell: CellContext) => TemplateResult | string;
+
+/**
+ * Custom renderers of the cells of `duckdb-grid-table-data`. NULL values
+ * are always displayed as `NULL`.
+ */
+export interface CellRenderers {
+  /** Renderers by column name, which take precedence over `types` */
+  columns?: Record<string, CellRenderer>;
+  /**
+   * Renderers by Arrow type id, such as `Type.Float` or `Type.Timestamp`.
+   * Dictionary-encoded columns, such as ENUMs, use the type of their values.
+   */
+  types?: Partial<Record<Type, CellRenderer>>;
+}
+
+/** Finds the renderer of a column, if any. */
+export function getCellRenderer(
+  renderers: CellRenderers,
+  column: string,
+  type: DataType
+): CellRenderer | undefined {
+  const valueType: DataType = DataType.isDictionary(type)
+    ? type.dictionary
+    : type;
+  return renderers.columns?.[column] ?? renderers.types?.[valueType.typeId];
+}
+
+/** Renders http(s) URLs as links opening in a new tab, other values as is. */
+export const linkRenderer: CellRenderer = ({value, text}) =>
+  typeof value === 'string' && /^https?:\/\//i.test(value)
+    ? html`<a href=${value} target="_blank" rel="noopener noreferrer"
+        >${value}</a
+      >`
+    : text;
+
+/**
+ * Renders JSON values, as strings or nested values, on a single line, with
+ * the pretty-printed value as tooltip. Invalid JSON is displayed as is.
+ */
+export const jsonRenderer: CellRenderer = ({value, text}) => {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return text;
+    }
+  }
+  const stringify = (space?: number) =>
+    JSON.stringify(
+      parsed,
+      (_, v: unknown) =>
+        typeof v === 'bigint'
+          ? v.toString()
+          : v instanceof Map
+          ? Object.fromEntries(v)
+          : v,
+      space
+    );
+  return html`<code title=${stringify(2)}>${stringify()}</code>`;
+};
+
+/**
+ * Renders numbers as a bar filled from `min` to `max`, followed by their
+ * text. The color of the bar is set by `--duckdb-grid-progress-color`.
+ */
+export function progressRenderer({min = 0, max = 1} = {}): CellRenderer {
+  return ({value, text}) => {
+    const ratio = (Number(value) - min) / (max - min);
+    const percent = Number.isFinite(ratio)
+      ? Math.min(Math.max(ratio, 0), 1) * 100
+      : 0;
+    return html`<span
+        role="progressbar"
+        aria-valuemin=${min}
+        aria-valuemax=${max}
+        aria-valuenow=${Number(value)}
+        style="display: inline-block; width: 60px; height: 8px; margin-right: 6px; overflow: hidden; border-radius: 4px; background-color: #e0e0e0; vertical-align: middle"
+        ><span
+          style="display: block; width: ${percent}%; height: 100%; background-color: var(--duckdb-grid-progress-color, #0066cc)"
+        ></span></span
+      >${text}`;
+  };
+}
+
+/**
+ * Renders numbers with `Intl.NumberFormat` options, in the locale of the
+ * grid. Other values are displayed as is.
+ */
+export function numberRenderer(format: Intl.NumberFormatOptions): CellRenderer {
+  const formats = new Map<string, Intl.NumberFormat>();
+  return ({value, text, options}) => {
+    const locale = options.locale ?? '';
+    let numberFormat = formats.get(locale);
+    if (!numberFormat) {
+      try {
+        numberFormat = new Intl.NumberFormat(locale || undefined, format);
+      } catch {
+        numberFormat = new Intl.NumberFormat(undefined, format);
+      }
+      formats.set(locale, numberFormat);
+    }
+    // DECIMALs are strings, which lose their precision beyond 15 digits
+    const number = typeof value === 'bigint' ? value : Number(value);
+    return typeof number === 'bigint' || !Number.isNaN(number)
+      ? numberFormat.format(number)
+      : text;
+  };
+}
+
+/** Renders numbers as amounts of a currency, such as `EUR`. */
+export function currencyRenderer(currency: string): CellRenderer {
+  return numberRenderer({style: 'currency', currency});
+}
+
+/** Renders ratios as percentages, `0.25` being displayed as `25%`. */
+export function percentRenderer(fractionDigits = 0): CellRenderer {
+  return numberRenderer({
+    style: 'percent',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+/** Renders numbers with a fixed number of fraction digits. */
+export function fixedRenderer(fractionDigits: number): CellRenderer {
+  return numberRenderer({
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
@@ -0,0 +1,266 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {
+  getCatalogWhere,
+  queryWithParams,
+  quoteIdentifier,
+  quoteQualifiedName,
+} from './sql.js';
+
+/** A column of an editable table, as described by `duckdb_columns()`. */
+export interface EditableColumn {
+  name: string;
+  /** DuckDB type, such as `INTEGER` or `DECIMAL(10,2)` */
+  type: string;
+  nullable: boolean;
+}
+
+/** What is needed to edit a table: its columns and its primary key. */
+export interface EditableTable {
+  columns: EditableColumn[];
+  /** Columns of the primary key, empty when the table has none */
+  primaryKey: string[];
+}
+
+/**
+ * A cell value as text, which DuckDB casts to the type of the column, or
+ * null for NULL.
+ */
+export type CellText = string | null;
+
+export interface InsertedRow {
+  /** Identifies the row until it is inserted */
+  id: string;
+  values: Record<string, CellText>;
+}
+
+/**
+ * Edits staged on a table until they are applied. Existing rows are
+ * identified by their key, see `getRowKey`.
+ */
+export interface Changeset {
+  /** New values of the edited cells, by row key then column */
+  updates: Record<string, Record<string, CellText>>;
+  /** Keys of the rows to delete */
+  deletes: string[];
+  inserts: InsertedRow[];
+}
+
+export const EMPTY_CHANGESET: Changeset = {
+  updates: {},
+  deletes: [],
+  inserts: [],
+};
+
+/** Number of rows updated, deleted or inserted by a changeset. */
+export function countChanges(changeset: Changeset): number {
+  return (
+    Object.keys(changeset.updates).filter(
+      (rowKey) => !changeset.deletes.includes(rowKey)
+    ).length +
+    changeset.deletes.length +
+    changeset.inserts.length
+  );
+}
+
+/**
+ * Converts a value read by `getArrowValue` to text that DuckDB can cast back
+ * to the type of its column. Nested values and BLOBs cannot be converted.
+ */
+export function toCellText(value: unknown): CellText {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'object') {
+    throw new Error('Nested and binary values cannot be edited');
+  }
+  return String(value);
+}
+
+/** Identifies a row by the text of its primary key values. */
+export function getRowKey(keyValues: CellText[]): string {
+  return JSON.stringify(keyValues);
+}
+
+/** Identifies a cell of a row, to report its validation error. */
+export function getCellKey(rowKey: string, column: string): string {
+  return JSON.stringify([rowKey, column]);
+}
+
+/** Loads the columns and primary key of a table. */
+export async function fetchEditableTable(
+  connection: AsyncDuckDBConnection,
+  tableName: string
+): Promise<EditableTable> {
+  const {where, params} = getCatalogWhere(tableName);
+  const [columnResult, keyResult] = await Promise.all([
+    queryWithParams(
+      connection,
+      `SELECT column_name, data_type, is_nullable FROM duckdb_columns()
+        WHERE ${where} ORDER BY column_index`,
+      params
+    ),
+    queryWithParams(
+      connection,
+      `SELECT unnest(constraint_column_names) AS column_name
+        FROM duckdb_constraints()
+        WHERE ${where} AND constraint_type = 'PRIMARY KEY'`,
+      params
+    ),
+  ]);
+
+  return {
+    columns: columnResult.toArray().map((row) => ({
+      name: row.column_name as string,
+      type: row.data_type as string,
+      nullable: Boolean(row.is_nullable),
+    })),
+    primaryKey: keyResult.toArray().map((row) => row.column_name as string),
+  };
+}
+
+/**
+ * Checks a cell value against its column: NULL must be allowed and the text
+ * must cast to the column type. Returns the error message, or null when the
+ * value is valid.
+ */
+export async function validateCell(
+  connection: AsyncDuckDBConnection,
+  column: EditableColumn,
+  value: CellText
+): Promise<string | null> {
+  if (value === null) {
+    return column.nullable ? null : `${column.name} cannot be NULL`;
+  }
+
+  try {
+    await queryWithParams(
+      connection,
+      `SELECT CAST(? AS ${column.type}) AS value`,
+      [value]
+    );
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid value';
+  }
+}
+
+interface ChangeStatement {
+  sql: string;
+  params: CellText[];
+  /** Key of the row changed, or id of the row inserted */
+  rowKey: string;
+  /** Whether the statement fails when it changes no row */
+  expectsRow: boolean;
+}
+
+/**
+ * Builds the statements applying a changeset, rows being matched on their
+ * primary key: deletes first, then updates, then inserts.
+ */
+export function compileChangeset(
+  tableName: string,
+  table: EditableTable,
+  changeset: Changeset
+): ChangeStatement[] {
+  const target = quoteQualifiedName(tableName);
+  const types = new Map(table.columns.map(({name, type}) => [name, type]));
+  const cast = (column: string) => `CAST(? AS ${types.get(column)})`;
+  const keyWhere = table.primaryKey
+    .map((column) => `${quoteIdentifier(column)} = ${cast(column)}`)
+    .join(' AND ');
+  const keyParams = (rowKey: string) => JSON.parse(rowKey) as CellText[];
+
+  const statements: ChangeStatement[] = changeset.deletes.map((rowKey) => ({
+    sql: `DELETE FROM ${target} WHERE ${keyWhere}`,
+    params: keyParams(rowKey),
+    rowKey,
+    expectsRow: true,
+  }));
+
+  for (const [rowKey, values] of Object.entries(changeset.updates)) {
+    const columns = Object.keys(values);
+    if (changeset.deletes.includes(rowKey) || columns.length === 0) {
+      continue;
+    }
+    statements.push({
+      sql: `UPDATE ${target} SET ${columns
+        .map((column) => `${quoteIdentifier(column)} = ${cast(column)}`)
+        .join(', ')} WHERE ${keyWhere}`,
+      params: [
+        ...columns.map((column) => values[column]),
+        ...keyParams(rowKey),
+      ],
+      rowKey,
+      expectsRow: true,
+    });
+  }
+
+  for (const {id, values} of changeset.inserts) {
+    const columns = Object.keys(values);
+    statements.push({
+      sql:
+        columns.length === 0
+          ? `INSERT INTO ${target} DEFAULT VALUES`
+          : `INSERT INTO ${target} (${columns
+              .map(quoteIdentifier)
+              .join(', ')}) VALUES (${columns.map(cast).join(', ')})`,
+      params: columns.map((column) => values[column]),
+      rowKey: id,
+      expectsRow: false,
+    });
+  }
+
+  return statements;
+}
+
+/**
+ * Applies a changeset within a transaction, which is rolled back at the
+ * first failing statement. A failure reports the row it happened on, or a
+ * null `rowKey` when the transaction itself fails to commit. No other query
+ * may be sent on the connection until the returned promise settles.
+ */
+export async function applyChangeset(
+  connection: AsyncDuckDBConnection,
+  tableName: string,
+  table: EditableTable,
+  changeset: Changeset
+): Promise<
+  {status: 'applied'} | {status: 'failed'; rowKey: string | null; error: string}
+> {
+  const statements = compileChangeset(tableName, table, changeset);
+  await connection.query('BEGIN TRANSACTION');
+
+  for (const {sql, params, rowKey, expectsRow} of statements) {
+    let error: string | null = null;
+    try {
+      const result = await queryWithParams(connection, sql, params);
+      if (expectsRow && Number(result.getChildAt(0)?.get(0) ?? 0) === 0) {
+        error = 'The row no longer exists';
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    if (error !== null) {
+      try {
+        await connection.query('ROLLBACK');
+      } catch (err) {
+        error = `${error}. The changes could not be rolled back: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`;
+      }
+      return {status: 'failed', rowKey, error};
+    }
+  }
+
+  try {
+    await connection.query('COMMIT');
+  } catch (err) {
+    return {
+      status: 'failed',
+      rowKey: null,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    };
+  }
+  return {status: 'applied'};
+}
@@ -0,0 +1,359 @@
+import {DataType, Table} from 'apache-arrow';
+import {getArrowValue} from './arrowValues.js';
+
+export type ChartType = 'line' | 'bar' | 'scatter';
+
+export type ChartAggregation = 'none' | 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+/** How the values of a column are plotted. */
+export type ChartColumnKind = 'number' | 'temporal' | 'category';
+
+export interface ChartColumn {
+  name: string;
+  kind: ChartColumnKind;
+}
+
+export interface ChartOptions {
+  type: ChartType;
+  /** Column of the x-axis */
+  x: string;
+  /** Column of the y-axis, or null to count the rows */
+  y: string | null;
+  /** Column splitting the rows into series, or null for a single series */
+  series: string | null;
+  /** How the y values sharing an x value are combined, `none` plots them all */
+  aggregation: ChartAggregation;
+}
+
+export interface ChartPoint {
+  /** Position on the x-axis: a number, a time in ms or a category index */
+  x: number;
+  y: number;
+  /** The x value as displayed */
+  label: string;
+}
+
+export interface ChartSeries {
+  name: string;
+  points: ChartPoint[];
+}
+
+export interface ChartData {
+  /** Kind of the x-axis, always `category` for bar charts */
+  xKind: ChartColumnKind;
+  /** Labels of the categories of a category x-axis */
+  categories: string[];
+  series: ChartSeries[];
+  /** Whether series or categories were left out */
+  truncated: boolean;
+}
+
+export const CHART_TYPES: Record<ChartType, string> = {
+  line: 'Line',
+  bar: 'Bar',
+  scatter: 'Scatter',
+};
+
+export const CHART_AGGREGATIONS: Record<ChartAggregation, string> = {
+  none: 'None',
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  min: 'Min',
+  max: 'Max',
+};
+
+/** Maximum number of series plotted, the others being left out. */
+export const MAX_CHART_SERIES = 10;
+
+/** Maximum number of categories of a bar chart. */
+export const MAX_CHART_CATEGORIES = 50;
+
+/** Kind of a column, or null when its values cannot be plotted. */
+function getColumnKind(type: DataType): ChartColumnKind | null {
+  if (
+    DataType.isInt(type) ||
+    DataType.isFloat(type) ||
+    DataType.isDecimal(type)
+  ) {
+    return 'number';
+  }
+  if (
+    DataType.isDate(type) ||
+    DataType.isTimestamp(type) ||
+    DataType.isTime(type)
+  ) {
+    return 'temporal';
+  }
+  if (
+    DataType.isUtf8(type) ||
+    DataType.isBool(type) ||
+    DataType.isDictionary(type)
+  ) {
+    return 'category';
+  }
+  return null;
+}
+
+/** Lists the columns of a table that can be plotted. */
+export function getChartColumns(table: Table): ChartColumn[] {
+  return table.schema.fields.flatMap((field) => {
+    const kind = getColumnKind(field.type);
+    return kind ? [{name: field.name, kind}] : [];
+  });
+}
+
+/**
+ * Picks default options for the columns of a result: a temporal x-axis with
+ * a numeric y-axis as a line, a categorical x-axis with a numeric y-axis as
+ * bars, and two numeric columns as a scatter plot. Returns null when no
+ * column can be plotted.
+ */
+export function inferChartOptions(columns: ChartColumn[]): ChartOptions | null {
+  const ofKind = (kind: ChartColumnKind) =>
+    columns.filter((column) => column.kind === kind).map(({name}) => name);
+  const numbers = ofKind('number');
+  const temporals = ofKind('temporal');
+  const categories = ofKind('category');
+
+  if (temporals.length > 0 && numbers.length > 0) {
+    return {
+      type: 'line',
+      x: temporals[0],
+      y: numbers[0],
+      series: null,
+      aggregation: 'sum',
+    };
+  }
+  if (categories.length > 0 && numbers.length > 0) {
+    return {
+      type: 'bar',
+      x: categories[0],
+      y: numbers[0],
+      series: null,
+      aggregation: 'sum',
+    };
+  }
+  if (numbers.length > 1) {
+    return {
+      type: 'scatter',
+      x: numbers[0],
+      y: numbers[1],
+      series: null,
+      aggregation: 'none',
+    };
+  }
+
+  const x = temporals[0] ?? categories[0] ?? numbers[0];
+  return x !== undefined
+    ? {
+        type: temporals.length > 0 ? 'line' : 'bar',
+        x,
+        y: null,
+        series: null,
+        aggregation: 'count',
+      }
+    : null;
+}
+
+/**
+ * Whether options can be used with some columns: they must all exist, the
+ * y-axis must be numeric, and lines and scatter plots need a numeric or
+ * temporal x-axis.
+ */
+export function isValidChartOptions(
+  options: ChartOptions,
+  columns: ChartColumn[]
+): boolean {
+  const kinds = new Map(columns.map(({name, kind}) => [name, kind]));
+  const xKind = kinds.get(options.x);
+  return (
+    xKind !== undefined &&
+    (options.type === 'bar' || xKind !== 'category') &&
+    (options.y === null || kinds.get(options.y) === 'number') &&
+    (options.series === null || kinds.has(options.series))
+  );
+}
+
+/**
+ * Converts a DATE, TIME or TIMESTAMP as read by `getArrowValue` to a time in
+ * ms, time zones aside. Returns NaN for values out of range.
+ */
+function parseTemporal(value: unknown): number {
+  const text = String(value).replace(/(\.\d{3})\d+/, '$1');
+  if (/^\d{2}:/.test(text)) {
+    return Date.parse(`1970-01-01T${text}Z`);
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return Date.parse(`${text}T00:00:00Z`);
+  }
+  const iso = text.replace(' ', 'T');
+  return Date.parse(iso.endsWith('Z') ? iso : `${iso}Z`);
+}
+
+function aggregate(values: number[], aggregation: ChartAggregation): number {
+  switch (aggregation) {
+    case 'count':
+      return values.length;
+    case 'avg':
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case 'min':
+      return getExtent(values)[0];
+    case 'max':
+      return getExtent(values)[1];
+    default:
+      return values.reduce((total, value) => total + value, 0);
+  }
+}
+
+/**
+ * Reads the points to plot from a table. NULL y values are left out, as are
+ * NULL x values except on bar charts. Without a y column, rows are counted.
+ */
+export function getChartData(table: Table, options: ChartOptions): ChartData {
+  const columns = getChartColumns(table);
+  const xColumnKind =
+    columns.find(({name}) => name === options.x)?.kind ?? 'category';
+  const xKind = options.type === 'bar' ? 'category' : xColumnKind;
+  const xVector = table.getChild(options.x);
+  const yVector = options.y !== null ? table.getChild(options.y) : null;
+  const seriesVector =
+    options.series !== null ? table.getChild(options.series) : null;
+  const aggregation = options.y === null ? 'count' : options.aggregation;
+
+  // Categories keep the order of the rows, unless they are numbers or times
+  const categories = new Map<string, number>();
+  const groups = new Map<string, {x: unknown; label: string; ys: number[]}[]>();
+  const groupIndexes = new Map<string, Map<string, number>>();
+  let truncated = false;
+
+  for (let i = 0; i < table.numRows; i++) {
+    const rawX = xVector ? getArrowValue(xVector, i) : null;
+    const rawY = yVector ? getArrowValue(yVector, i) : 1;
+    if (rawY === null || (rawX === null && xKind !== 'category')) {
+      continue;
+    }
+    const y = Number(rawY);
+    const label = rawX === null ? 'NULL' : String(rawX);
+    const x =
+      xKind === 'number'
+        ? Number(rawX)
+        : xKind === 'temporal'
+        ? parseTemporal(rawX)
+        : label;
+    if (!Number.isFinite(y) || (typeof x === 'number' && !Number.isFinite(x))) {
+      continue;
+    }
+
+    const rawSeries = seriesVector ? getArrowValue(seriesVector, i) : null;
+    const seriesName = seriesVector
+      ? rawSeries === null
+        ? 'NULL'
+        : String(rawSeries)
+      : options.y ?? 'Count';
+    let points = groups.get(seriesName);
+    if (!points) {
+      if (groups.size >= MAX_CHART_SERIES) {
+        truncated = true;
+        continue;
+      }
+      points = [];
+      groups.set(seriesName, points);
+      groupIndexes.set(seriesName, new Map());
+    }
+
+    if (xKind === 'category' && !categories.has(label)) {
+      if (categories.size >= MAX_CHART_CATEGORIES) {
+        truncated = true;
+        continue;
+      }
+      categories.set(
+        label,
+        rawX === null
+          ? Infinity
+          : xColumnKind === 'number'
+          ? Number(rawX)
+          : xColumnKind === 'temporal'
+          ? parseTemporal(rawX)
+          : categories.size
+      );
+    }
+
+    const indexes = groupIndexes.get(seriesName)!;
+    const index = aggregation === 'none' ? undefined : indexes.get(label);
+    if (index === undefined) {
+      indexes.set(label, points.length);
+      points.push({x, label, ys: [y]});
+    } else {
+      points[index].ys.push(y);
+    }
+  }
+
+  const categoryLabels = [...categories.entries()]
+    .sort(([, a], [, b]) => a - b)
+    .map(([label]) => label);
+  const categoryIndexes = new Map(
+    categoryLabels.map((label, index) => [label, index])
+  );
+
+  return {
+    xKind,
+    categories: categoryLabels,
+    series: [...groups.entries()].map(([name, points]) => ({
+      name,
+      points: points
+        .map(({x, label, ys}) => ({
+          x: typeof x === 'number' ? x : categoryIndexes.get(label) ?? Infinity,
+          y: aggregation === 'none' ? ys[0] : aggregate(ys, aggregation),
+          label,
+        }))
+        .sort((a, b) => a.x - b.x),
+    })),
+    truncated,
+  };
+}
+
+/**
+ * Returns the smallest and largest values. Unlike `Math.min(...values)`, it
+ * does not overflow the call stack on large arrays.
+ */
+export function getExtent(values: number[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) {
+      min = value;
+    }
+    if (value > max) {
+      max = value;
+    }
+  }
+  return [min, max];
+}
+
+/**
+ * Returns about `count` round values spanning `min` to `max`, such as
+ * 0, 20, 40... to label an axis.
+ */
+export function getNiceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    const margin = Math.abs(min) || 1;
+    min -= margin;
+    max += margin;
+  }
+  const rawStep = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const normalized = rawStep / magnitude;
+  const step =
+    (normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10) *
+    magnitude;
+
+  const ticks: number[] = [];
+  const first = Math.floor(min / step);
+  const last = Math.ceil(max / step);
+  for (let i = first; i <= last; i++) {
+    // Rounded so that 0.1 steps do not drift to 0.30000000000000004
+    ticks.push(Number((i * step).toPrecision(12)));
+  }
+  return ticks;
+}
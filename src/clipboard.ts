@@ -0,0 +1,133 @@
+import {DataType} from 'apache-arrow';
+import {formatArrowValue, getArrowTypeCategory} from './arrowValues.js';
+import {quoteIdentifier, quoteLiteral, quoteQualifiedName} from './sql.js';
+
+export type CopyFormat = 'tsv' | 'csv' | 'markdown' | 'sql';
+
+/** A rectangle of cells, with the values read by `getArrowValue`. */
+export interface CellRange {
+  columns: {name: string; type: DataType}[];
+  /** Values of the cells, row by row */
+  rows: unknown[][];
+}
+
+export const COPY_FORMATS: Record<CopyFormat, string> = {
+  tsv: 'TSV',
+  csv: 'CSV',
+  markdown: 'Markdown',
+  sql: 'SQL INSERT',
+};
+
+/** Table name of the `INSERT` statements when none is given. */
+const DEFAULT_TABLE_NAME = 'data';
+
+/**
+ * Text of a value as copied: unlike `formatArrowValue`, numbers are not
+ * formatted with the locale separators. Returns null for NULL.
+ */
+export function getCellText(value: unknown, type: DataType): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return typeof value === 'object' || DataType.isInterval(type)
+    ? formatArrowValue(value, type)
+    : String(value);
+}
+
+/** Quotes a field containing the delimiter, a quote or a line break. */
+function quoteField(text: string, delimiter: string) {
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+function formatDelimited(range: CellRange, delimiter: string, header: boolean) {
+  const lines = range.rows.map((row) =>
+    row
+      .map((value, i) =>
+        quoteField(getCellText(value, range.columns[i].type) ?? '', delimiter)
+      )
+      .join(delimiter)
+  );
+  if (header) {
+    lines.unshift(
+      range.columns.map(({name}) => quoteField(name, delimiter)).join(delimiter)
+    );
+  }
+  return lines.join('\n');
+}
+
+function formatMarkdown(range: CellRange) {
+  const escape = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [
+    line(range.columns.map(({name}) => escape(name))),
+    line(
+      range.columns.map(({type}) =>
+        getArrowTypeCategory(type) === 'number' ? '---:' : '---'
+      )
+    ),
+    ...range.rows.map((row) =>
+      line(
+        row.map((value, i) =>
+          escape(getCellText(value, range.columns[i].type) ?? 'NULL')
+        )
+      )
+    ),
+  ].join('\n');
+}
+
+/**
+ * Writes a value as a SQL literal. Values other than numbers and booleans
+ * are written as strings, which DuckDB casts to the type of the column.
+ */
+function toSqlLiteral(value: unknown, type: DataType) {
+  const text = getCellText(value, type);
+  if (text === null) {
+    return 'NULL';
+  }
+  if (DataType.isBool(type)) {
+    return text.toUpperCase();
+  }
+  return getArrowTypeCategory(type) === 'number' &&
+    Number.isFinite(Number(text))
+    ? text
+    : quoteLiteral(text);
+}
+
+function formatInserts(range: CellRange, tableName: string) {
+  const columns = range.columns.map(({name}) => quoteIdentifier(name));
+  return `INSERT INTO ${quoteQualifiedName(tableName)} (${columns.join(
+    ', '
+  )}) VALUES\n${range.rows
+    .map(
+      (row) =>
+        `  (${row
+          .map((value, i) => toSqlLiteral(value, range.columns[i].type))
+          .join(', ')})`
+    )
+    .join(',\n')};`;
+}
+
+/**
+ * Formats cells for the clipboard. TSV holds the values alone, to be pasted
+ * into a spreadsheet, while CSV and Markdown start with the column names.
+ * SQL writes a single `INSERT` of all the rows into `tableName`.
+ */
+export function formatCellRange(
+  range: CellRange,
+  format: CopyFormat,
+  tableName = DEFAULT_TABLE_NAME
+): string {
+  switch (format) {
+    case 'tsv':
+      return formatDelimited(range, '\t', false);
+    case 'csv':
+      return formatDelimited(range, ',', true);
+    case 'markdown':
+      return formatMarkdown(range);
+    case 'sql':
+      return formatInserts(range, tableName);
+  }
+}
@@ -0,0 +1,100 @@
+/** Layout of a column of `duckdb-grid-table-data`. */
+export interface ColumnLayout {
+  name: string;
+  /** Width in pixels, or null to size the column to its content */
+  width: number | null;
+  hidden: boolean;
+  /** Whether the column stays on the left when scrolling horizontally */
+  pinned: boolean;
+}
+
+/**
+ * Layout of the columns of a table, in display order. It only holds plain
+ * data so that it can be saved as JSON. Columns missing from it are
+ * displayed after the others, in the order of the table.
+ */
+export type ColumnState = ColumnLayout[];
+
+/** Width under which columns cannot be resized. */
+export const MIN_COLUMN_WIDTH = 40;
+
+/** Width of pinned columns which were not resized. */
+export const DEFAULT_PINNED_WIDTH = 150;
+
+/**
+ * Lays out the columns of a table: those of the state in its order, then the
+ * others, pinned columns coming first. Layouts of columns missing from the
+ * table are left out.
+ */
+export function resolveColumnLayout(
+  names: string[],
+  state: ColumnState
+): ColumnLayout[] {
+  const known = new Set(names);
+  const layouts = new Map<string, ColumnLayout>();
+  for (const layout of state) {
+    if (known.has(layout.name) && !layouts.has(layout.name)) {
+      layouts.set(layout.name, layout);
+    }
+  }
+  for (const name of names) {
+    if (!layouts.has(name)) {
+      layouts.set(name, {name, width: null, hidden: false, pinned: false});
+    }
+  }
+
+  const ordered = [...layouts.values()];
+  return [
+    ...ordered.filter(({pinned}) => pinned),
+    ...ordered.filter(({pinned}) => !pinned),
+  ];
+}
+
+/**
+ * Builds a state from the layouts of the columns of a table, keeping the
+ * layouts of the other columns in case they come back.
+ */
+function mergeLayouts(state: ColumnState, layouts: ColumnLayout[]) {
+  const names = new Set(layouts.map(({name}) => name));
+  return [...layouts, ...state.filter(({name}) => !names.has(name))];
+}
+
+/** Changes the layout of a column. */
+export function updateColumnLayout(
+  state: ColumnState,
+  names: string[],
+  name: string,
+  changes: Partial<Omit<ColumnLayout, 'name'>>
+): ColumnState {
+  return mergeLayouts(
+    state,
+    resolveColumnLayout(names, state).map((layout) =>
+      layout.name === name ? {...layout, ...changes} : layout
+    )
+  );
+}
+
+/**
+ * Moves a column to the position of another one. Pinned columns stay before
+ * the others, so a column only moves among the columns pinned as it is, or
+ * not.
+ */
+export function moveColumnLayout(
+  state: ColumnState,
+  names: string[],
+  name: string,
+  target: string
+): ColumnState {
+  const layouts = resolveColumnLayout(names, state);
+  const from = layouts.findIndex((layout) => layout.name === name);
+  const to = layouts.findIndex((layout) => layout.name === target);
+  if (from === -1 || to === -1 || from === to) {
+    return state;
+  }
+
+  const others = layouts.filter((_, i) => i !== from);
+  // Once the column is removed, a target on its right is one step closer,
+  // so the column lands after it
+  others.splice(to, 0, layouts[from]);
+  return mergeLayouts(state, resolveColumnLayout(names, others));
+}
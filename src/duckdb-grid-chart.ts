@@ -0,0 +1,485 @@
+import {Table} from 'apache-arrow';
+import {css, html, LitElement, svg} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {
+  CHART_AGGREGATIONS,
+  CHART_TYPES,
+  ChartAggregation,
+  ChartColumn,
+  ChartData,
+  ChartOptions,
+  ChartType,
+  getChartColumns,
+  getChartData,
+  getExtent,
+  getNiceTicks,
+  inferChartOptions,
+  isValidChartOptions,
+  MAX_CHART_CATEGORIES,
+  MAX_CHART_SERIES,
+} from './chart.js';
+
+const WIDTH = 720;
+const HEIGHT = 360;
+const MARGIN = {top: 16, right: 24, bottom: 64, left: 72};
+
+/** Colors of the series, in order. */
+const SERIES_COLORS = [
+  '#4e79a7',
+  '#f28e2b',
+  '#e15759',
+  '#76b7b2',
+  '#59a14f',
+  '#edc948',
+  '#b07aa1',
+  '#ff9da7',
+  '#9c755f',
+  '#bab0ac',
+];
+
+/** Number of category labels from which they are thinned out. */
+const MAX_CATEGORY_LABELS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatNumber(value: number) {
+  return value.toLocaleString(undefined, {maximumFractionDigits: 4});
+}
+
+/** Formats a time in ms at a precision suiting the span of the axis. */
+function formatTime(time: number, span: number) {
+  const iso = new Date(time).toISOString();
+  if (span >= 2 * DAY_MS) {
+    return iso.slice(0, 10);
+  }
+  return time < DAY_MS && time >= 0
+    ? iso.slice(11, 19)
+    : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+function truncateLabel(label: string) {
+  return label.length > 14 ? `${label.slice(0, 13)}…` : label;
+}
+
+/**
+ * A web component plotting the rows of an Arrow table as a line, bar or
+ * scatter chart, drawn as SVG. The axes, the column splitting the rows into
+ * series, the aggregation of the y values and the chart type can be picked;
+ * they default to what suits the column types, see `inferChartOptions`.
+ *
+ * @fires chart-options-changed - Indicates when the user changes the chart.
+ * The detail holds the new `options`.
+ * @csspart controls - The pickers of the chart type, axes and aggregation
+ * @csspart chart - The SVG element
+ * @csspart legend - The names and colors of the series
+ */
+@customElement('duckdb-grid-chart')
+export class DuckDbGridChart extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-size: 13px;
+    }
+
+    .controls {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px 16px;
+      padding: 8px 0;
+    }
+
+    label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      color: #666;
+    }
+
+    select {
+      padding: 4px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+
+    svg {
+      display: block;
+      width: 100%;
+      max-width: ${WIDTH}px;
+      height: auto;
+    }
+
+    .axis line,
+    .axis path {
+      stroke: #999;
+    }
+
+    .grid line {
+      stroke: #eee;
+    }
+
+    .axis text {
+      fill: #666;
+      font-size: 11px;
+    }
+
+    .series-line {
+      fill: none;
+      stroke-width: 2;
+    }
+
+    .scatter-point {
+      fill-opacity: 0.7;
+    }
+
+    .legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 12px;
+      margin: 0;
+      padding: 4px 0;
+      list-style: none;
+    }
+
+    .legend li {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .swatch {
+      width: 10px;
+      height: 10px;
+      border-radius: 2px;
+    }
+
+    .notice {
+      padding: 12px 0;
+      color: #666;
+      font-style: italic;
+    }
+  `;
+
+  @property({attribute: false})
+  table: Table | null = null;
+
+  /**
+   * What is plotted. Options that do not suit the columns of the table are
+   * replaced by inferred ones.
+   */
+  @property({attribute: false})
+  options: ChartOptions | null = null;
+
+  private columns: ChartColumn[] = [];
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    super.willUpdate(changedProperties);
+    if (changedProperties.has('table') || changedProperties.has('options')) {
+      this.columns = this.table ? getChartColumns(this.table) : [];
+      if (!this.options || !isValidChartOptions(this.options, this.columns)) {
+        this.options = inferChartOptions(this.columns);
+      }
+    }
+  }
+
+  private updateOptions(changes: Partial<ChartOptions>) {
+    if (!this.options) {
+      return;
+    }
+    const options = {...this.options, ...changes};
+
+    // Lines and scatter plots need a numeric or temporal x-axis
+    const xColumn = this.columns.find(({name}) => name === options.x);
+    if (options.type !== 'bar' && xColumn?.kind === 'category') {
+      options.x =
+        this.columns.find(({kind}) => kind !== 'category')?.name ?? options.x;
+    }
+    if (options.y === null) {
+      options.aggregation = 'count';
+    } else if (this.options.y === null && changes.y !== undefined) {
+      options.aggregation = options.type === 'scatter' ? 'none' : 'sum';
+    }
+
+    this.options = options;
+    this.dispatchEvent(
+      new CustomEvent('chart-options-changed', {
+        detail: {options},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private renderSelect(
+    label: string,
+    value: string,
+    choices: [string, string][],
+    onChange: (value: string) => void,
+    disabled = false
+  ) {
+    return html`<label>
+      ${label}
+      <select
+        .value=${value}
+        ?disabled=${disabled}
+        @change=${(e: Event) => onChange((e.target as HTMLSelectElement).value)}
+      >
+        ${choices.map(
+          ([choice, text]) =>
+            html`<option value=${choice} ?selected=${choice === value}>
+              ${text}
+            </option>`
+        )}
+      </select>
+    </label>`;
+  }
+
+  private renderControls(options: ChartOptions) {
+    const names = (filter: (column: ChartColumn) => boolean) =>
+      this.columns
+        .filter(filter)
+        .map(({name}): [string, string] => [name, name]);
+    const hasAxisColumn = this.columns.some(({kind}) => kind !== 'category');
+
+    return html`<div class="controls" part="controls">
+      ${this.renderSelect(
+        'Chart',
+        options.type,
+        Object.entries(CHART_TYPES).filter(
+          ([type]) => type === 'bar' || hasAxisColumn
+        ),
+        (type) => this.updateOptions({type: type as ChartType})
+      )}
+      ${this.renderSelect(
+        'X',
+        options.x,
+        names(({kind}) => options.type === 'bar' || kind !== 'category'),
+        (x) => this.updateOptions({x})
+      )}
+      ${this.renderSelect(
+        'Y',
+        options.y ?? '',
+        [['', 'Row count'], ...names(({kind}) => kind === 'number')],
+        (y) => this.updateOptions({y: y || null})
+      )}
+      ${this.renderSelect(
+        'Aggregation',
+        options.aggregation,
+        Object.entries(CHART_AGGREGATIONS),
+        (aggregation) =>
+          this.updateOptions({aggregation: aggregation as ChartAggregation}),
+        options.y === null
+      )}
+      ${this.renderSelect(
+        'Series',
+        options.series ?? '',
+        [
+          ['', 'None'],
+          ...names(({name}) => name !== options.x && name !== options.y),
+        ],
+        (series) => this.updateOptions({series: series || null})
+      )}
+    </div>`;
+  }
+
+  private renderChart(options: ChartOptions, data: ChartData) {
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const points = data.series.flatMap((series) => series.points);
+
+    const ys = points.map(({y}) => y);
+    // Bars start from 0
+    const yTicks = getNiceTicks(
+      ...getExtent(options.type === 'bar' ? [...ys, 0] : ys)
+    );
+    const yMin = yTicks[0];
+    const yMax = yTicks[yTicks.length - 1];
+    const scaleY = (y: number) =>
+      MARGIN.top + plotHeight - ((y - yMin) / (yMax - yMin)) * plotHeight;
+
+    let scaleX: (x: number) => number;
+    let xTicks: {x: number; label: string}[];
+    const bandWidth = plotWidth / Math.max(data.categories.length, 1);
+    if (data.xKind === 'category') {
+      scaleX = (x) => MARGIN.left + (x + 0.5) * bandWidth;
+      const every = Math.ceil(data.categories.length / MAX_CATEGORY_LABELS);
+      xTicks = data.categories
+        .map((label, x) => ({x, label: truncateLabel(label)}))
+        .filter(({x}) => x % every === 0);
+    } else {
+      const xs = points.map(({x}) => x);
+      let [xMin, xMax] = getExtent(xs);
+      if (data.xKind === 'number') {
+        const ticks = getNiceTicks(xMin, xMax);
+        xMin = ticks[0];
+        xMax = ticks[ticks.length - 1];
+        xTicks = ticks.map((x) => ({x, label: formatNumber(x)}));
+      } else {
+        if (xMin === xMax) {
+          xMin -= DAY_MS;
+          xMax += DAY_MS;
+        }
+        const span = xMax - xMin;
+        xTicks = [0, 1, 2, 3, 4].map((i) => {
+          const x = xMin + (span * i) / 4;
+          return {x, label: formatTime(x, span)};
+        });
+      }
+      scaleX = (x) => MARGIN.left + ((x - xMin) / (xMax - xMin)) * plotWidth;
+    }
+
+    const rotateLabels = data.xKind === 'category' && xTicks.length > 6;
+    const bottom = MARGIN.top + plotHeight;
+    const barWidth = (bandWidth * 0.8) / data.series.length;
+    const baseline = scaleY(Math.max(yMin, Math.min(0, yMax)));
+
+    return html`<svg
+      part="chart"
+      viewBox="0 0 ${WIDTH} ${HEIGHT}"
+      role="img"
+      aria-label="${CHART_TYPES[options.type]} chart of ${options.y ??
+      'row count'} by ${options.x}"
+    >
+      <g class="grid">
+        ${yTicks.map(
+          (y) => svg`<line
+            x1=${MARGIN.left}
+            x2=${MARGIN.left + plotWidth}
+            y1=${scaleY(y)}
+            y2=${scaleY(y)}
+          ></line>`
+        )}
+      </g>
+      ${data.series.map((series, i) => {
+        const color = SERIES_COLORS[i % SERIES_COLORS.length];
+        const title = (point: {label: string; y: number}) =>
+          `${series.name}\n${point.label}: ${formatNumber(point.y)}`;
+        switch (options.type) {
+          case 'bar':
+            return series.points.map((point) => {
+              const y = scaleY(point.y);
+              return svg`<rect
+                x=${scaleX(point.x) - bandWidth * 0.4 + i * barWidth}
+                y=${Math.min(y, baseline)}
+                width=${Math.max(barWidth - 1, 1)}
+                height=${Math.abs(baseline - y)}
+                fill=${color}
+              ><title>${title(point)}</title></rect>`;
+            });
+          case 'line':
+            return svg`<polyline
+                class="series-line"
+                stroke=${color}
+                points=${series.points
+                  .map((point) => `${scaleX(point.x)},${scaleY(point.y)}`)
+                  .join(' ')}
+              ></polyline>
+              ${series.points.map(
+                (point) => svg`<circle
+                  cx=${scaleX(point.x)}
+                  cy=${scaleY(point.y)}
+                  r="2.5"
+                  fill=${color}
+                ><title>${title(point)}</title></circle>`
+              )}`;
+          default:
+            return series.points.map(
+              (point) => svg`<circle
+                class="scatter-point"
+                cx=${scaleX(point.x)}
+                cy=${scaleY(point.y)}
+                r="3.5"
+                fill=${color}
+              ><title>${title(point)}</title></circle>`
+            );
+        }
+      })}
+      <g class="axis">
+        <line
+          x1=${MARGIN.left}
+          x2=${MARGIN.left + plotWidth}
+          y1=${bottom}
+          y2=${bottom}
+        ></line>
+        <line
+          x1=${MARGIN.left}
+          x2=${MARGIN.left}
+          y1=${MARGIN.top}
+          y2=${bottom}
+        ></line>
+        ${yTicks.map(
+          (y) => svg`<text
+            x=${MARGIN.left - 6}
+            y=${scaleY(y)}
+            text-anchor="end"
+            dominant-baseline="middle"
+          >${formatNumber(y)}</text>`
+        )}
+        ${xTicks.map(({x, label}) => {
+          const tickX = scaleX(x);
+          return rotateLabels
+            ? svg`<text
+                x=${tickX}
+                y=${bottom + 10}
+                text-anchor="end"
+                transform="rotate(-40 ${tickX} ${bottom + 10})"
+              >${label}</text>`
+            : svg`<text
+                x=${tickX}
+                y=${bottom + 16}
+                text-anchor="middle"
+              >${label}</text>`;
+        })}
+      </g>
+    </svg>`;
+  }
+
+  override render() {
+    const options = this.options;
+    if (!this.table) {
+      return '';
+    }
+    if (!options) {
+      return html`<div class="notice">
+        No column of this result can be charted
+      </div>`;
+    }
+
+    const data = getChartData(this.table, options);
+    const hasPoints = data.series.some((series) => series.points.length > 0);
+
+    return html`
+      ${this.renderControls(options)}
+      ${hasPoints
+        ? this.renderChart(options, data)
+        : html`<div class="notice">No values to plot</div>`}
+      ${options.series !== null && hasPoints
+        ? html`<ul class="legend" part="legend">
+            ${data.series.map(
+              (series, i) => html`<li>
+                <span
+                  class="swatch"
+                  style="background-color: ${SERIES_COLORS[
+                    i % SERIES_COLORS.length
+                  ]}"
+                ></span>
+                ${series.name}
+              </li>`
+            )}
+          </ul>`
+        : ''}
+      ${data.truncated
+        ? html`<div class="notice">
+            Only the first ${MAX_CHART_SERIES} series and
+            ${MAX_CHART_CATEGORIES} categories are plotted
+          </div>`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-chart': DuckDbGridChart;
+  }
+}
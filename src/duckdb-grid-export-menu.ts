@@ -0,0 +1,279 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {Table} from 'apache-arrow';
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {
+  downloadBlob,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportData,
+  ExportSource,
+} from './export.js';
+import {runExclusive} from './sql.js';
+
+type ExportScope = 'result' | 'query';
+
+/**
+ * A web component offering to download the current result, or the full
+ * underlying query without its row limit, as a CSV, Parquet, JSON, NDJSON,
+ * Arrow IPC or Excel-compatible file.
+ *
+ * @fires export-progress - Indicates the progress of an export. The detail
+ * holds its `format`, `scope` and `stage`: `writing` while DuckDB writes the
+ * file, then `done` along with the `fileName` and `size` of the download.
+ * @fires export-failed - Indicates when an export fails. The detail holds
+ * its `format`, `scope` and `error` message.
+ * @csspart button - The button opening the menu
+ * @csspart menu - The export options
+ */
+@customElement('duckdb-grid-export-menu')
+export class DuckDbGridExportMenu extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-block;
+      position: relative;
+    }
+
+    button {
+      padding: 6px 12px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background-color: white;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    button:disabled {
+      color: #999;
+      cursor: not-allowed;
+    }
+
+    .menu {
+      position: absolute;
+      top: calc(100% + 4px);
+      right: 0;
+      z-index: 3;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      min-width: 220px;
+      padding: 12px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background-color: white;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      font-size: 13px;
+    }
+
+    label {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+    }
+
+    select,
+    input[type='text'] {
+      padding: 4px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+
+    input[type='text'] {
+      width: 40px;
+    }
+
+    .error {
+      color: #d32f2f;
+    }
+  `;
+
+  @property({type: Object})
+  connection!: AsyncDuckDBConnection;
+
+  /** The result currently displayed. */
+  @property({attribute: false})
+  table: Table | null = null;
+
+  /**
+   * The full query behind the result, without its row limit. Only the
+   * current result can be exported when it is not set.
+   */
+  @property({type: String})
+  query = '';
+
+  /** Values for the `?` placeholders of `query`. */
+  @property({attribute: false})
+  params: unknown[] = [];
+
+  /** Name of the downloaded file, without its extension. */
+  @property({type: String})
+  fileName = 'export';
+
+  /** Whether exports are disabled, such as while the result is loading. */
+  @property({type: Boolean})
+  disabled = false;
+
+  @state()
+  private open = false;
+
+  @state()
+  private format: ExportFormat = 'csv';
+
+  @state()
+  private scope: ExportScope = 'result';
+
+  @state()
+  private delimiter = ',';
+
+  @state()
+  private header = true;
+
+  @state()
+  private exporting = false;
+
+  @state()
+  private error = '';
+
+  private dispatchExportEvent(type: string, detail: Record<string, unknown>) {
+    this.dispatchEvent(
+      new CustomEvent(type, {
+        detail: {format: this.format, scope: this.scope, ...detail},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private async export() {
+    const scope = this.query ? this.scope : 'result';
+    let source: ExportSource;
+    if (scope === 'query') {
+      source = {query: this.query, params: this.params};
+    } else if (this.table) {
+      source = {table: this.table};
+    } else {
+      return;
+    }
+
+    this.exporting = true;
+    this.error = '';
+    this.dispatchExportEvent('export-progress', {stage: 'writing'});
+
+    try {
+      const blob = await runExclusive(this.connection, () =>
+        exportData(this.connection, source, {
+          format: this.format,
+          delimiter: this.delimiter,
+          header: this.header,
+        })
+      );
+      const fileName = `${this.fileName}.${
+        EXPORT_FORMATS[this.format].extension
+      }`;
+      downloadBlob(blob, fileName);
+      this.open = false;
+      this.dispatchExportEvent('export-progress', {
+        stage: 'done',
+        fileName,
+        size: blob.size,
+      });
+    } catch (err) {
+      this.error = `Export failed: ${
+        err instanceof Error ? err.message : 'Unknown error'
+      }`;
+      this.dispatchExportEvent('export-failed', {error: this.error});
+    } finally {
+      this.exporting = false;
+    }
+  }
+
+  private renderMenu() {
+    return html`
+      <div class="menu" part="menu">
+        ${this.query
+          ? html`<label>
+              Rows
+              <select
+                .value=${this.scope}
+                @change=${(e: Event) =>
+                  (this.scope = (e.target as HTMLSelectElement)
+                    .value as ExportScope)}
+              >
+                <option value="result">Current result</option>
+                <option value="query">Full query</option>
+              </select>
+            </label>`
+          : ''}
+        <label>
+          Format
+          <select
+            .value=${this.format}
+            @change=${(e: Event) =>
+              (this.format = (e.target as HTMLSelectElement)
+                .value as ExportFormat)}
+          >
+            ${Object.entries(EXPORT_FORMATS).map(
+              ([format, {label}]) =>
+                html`<option value=${format}>${label}</option>`
+            )}
+          </select>
+        </label>
+        ${this.format === 'csv'
+          ? html`
+              <label>
+                Delimiter
+                <input
+                  type="text"
+                  maxlength="1"
+                  .value=${this.delimiter}
+                  @input=${(e: Event) =>
+                    (this.delimiter = (e.target as HTMLInputElement).value)}
+                />
+              </label>
+              <label>
+                Header row
+                <input
+                  type="checkbox"
+                  .checked=${this.header}
+                  @change=${(e: Event) =>
+                    (this.header = (e.target as HTMLInputElement).checked)}
+                />
+              </label>
+            `
+          : ''}
+        ${this.error ? html`<div class="error">${this.error}</div>` : ''}
+        <button
+          ?disabled=${this.exporting || this.disabled}
+          @click=${this.export}
+        >
+          ${this.exporting ? 'Exporting...' : 'Download'}
+        </button>
+      </div>
+    `;
+  }
+
+  override render() {
+    return html`
+      <button
+        part="button"
+        aria-haspopup="true"
+        aria-expanded=${this.open ? 'true' : 'false'}
+        ?disabled=${this.disabled ||
+        !this.connection ||
+        (!this.table && !this.query)}
+        @click=${() => (this.open = !this.open)}
+      >
+        Export ▾
+      </button>
+      ${this.open ? this.renderMenu() : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-export-menu': DuckDbGridExportMenu;
+  }
+}
@@ -0,0 +1,515 @@
+import {AsyncDuckDBConnection, DuckDBDataProtocol} from '@duckdb/duckdb-wasm';
+import {Table} from 'apache-arrow';
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import './duckdb-grid-table-data.js';
+import {quoteIdentifier, quoteLiteral, runExclusive} from './sql.js';
+
+type FileFormat = 'csv' | 'parquet' | 'json';
+
+/** Number of rows shown in the preview. */
+const PREVIEW_ROW_COUNT = 10;
+
+const FILE_FORMATS: Record<string, FileFormat> = {
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'csv',
+  parquet: 'parquet',
+  json: 'json',
+  ndjson: 'json',
+  jsonl: 'json',
+};
+
+/** Files registered by this module, numbered so that names never collide. */
+let registeredFileCount = 0;
+
+interface PreviewColumn {
+  name: string;
+  type: string;
+}
+
+function getFileFormat(fileName: string): FileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FILE_FORMATS[extension] ?? null;
+}
+
+/** Turns a file name into a table name: `My data.csv` gives `my_data`. */
+function getDefaultTableName(fileName: string): string {
+  const name = fileName
+    .replace(/\.[^.]*$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(name) ? name : `t_${name}`;
+}
+
+/**
+ * A web component importing CSV, Parquet and JSON files into DuckDB. Dropped
+ * or picked files are registered with DuckDB's file registry, which reads
+ * them from the browser without copying them, their inferred schema and
+ * first rows are previewed, and a table or a view is created over them.
+ *
+ * @fires table-imported - Indicates when a table or view has been created.
+ * The detail holds its quoted `tableName`, its unquoted `name`, its `type`
+ * and the `fileName` it was read from.
+ * @csspart drop-zone - The area accepting dropped files
+ * @csspart preview - The preview of the file
+ */
+@customElement('duckdb-grid-file-import')
+export class DuckDbGridFileImport extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      border: solid 1px gray;
+      padding: 16px;
+    }
+
+    .drop-zone {
+      padding: 24px;
+      border: 2px dashed #ccc;
+      border-radius: 6px;
+      color: #666;
+      text-align: center;
+    }
+
+    .drop-zone.dragging {
+      border-color: #007bff;
+      background-color: #f0f7ff;
+    }
+
+    .options {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px 16px;
+      margin: 16px 0;
+      font-size: 14px;
+    }
+
+    input[type='text'],
+    select {
+      padding: 6px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
+    .delimiter-input {
+      width: 40px;
+    }
+
+    button {
+      padding: 6px 12px;
+      background-color: #007bff;
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 14px;
+    }
+
+    button:disabled {
+      background-color: #6c757d;
+      cursor: not-allowed;
+    }
+
+    .section-title {
+      margin: 16px 0 8px;
+      font-weight: bold;
+    }
+
+    .columns {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 12px;
+      font-size: 13px;
+    }
+
+    .column-type {
+      color: #666;
+    }
+
+    .loading {
+      color: #666;
+      font-style: italic;
+      padding: 8px 0;
+    }
+
+    .error {
+      color: #d32f2f;
+      font-weight: bold;
+      padding: 8px 0;
+    }
+
+    duckdb-grid-table-data {
+      border: none;
+      padding: 0;
+      --duckdb-grid-viewport-height: 240px;
+    }
+  `;
+
+  @property({type: Object})
+  connection!: AsyncDuckDBConnection;
+
+  /**
+   * The file being imported, with its `path` in DuckDB's file registry, which
+   * is unique so as to not replace files registered by the page.
+   */
+  @state()
+  private file: {name: string; path: string; format: FileFormat} | null = null;
+
+  @state()
+  private dragging = false;
+
+  /** Whether CSV files have a header row, or null to detect it. */
+  @state()
+  private csvHeader: boolean | null = null;
+
+  /** Delimiter of CSV files, or '' to detect it. */
+  @state()
+  private csvDelimiter = '';
+
+  @state()
+  private tableName = '';
+
+  @state()
+  private createAs: 'table' | 'view' = 'table';
+
+  @state()
+  private previewState:
+    | {status: 'idle'}
+    | {status: 'loading'}
+    | {status: 'loaded'; columns: PreviewColumn[]; rows: Table}
+    | {status: 'error'; error: string} = {status: 'idle'};
+
+  @state()
+  private creating = false;
+
+  @state()
+  private error = '';
+
+  /** Incremented on every preview so that stale responses can be discarded. */
+  private previewId = 0;
+
+  /** The table function reading the file, with its options. */
+  private getReader() {
+    if (!this.file) {
+      return '';
+    }
+
+    const fileName = quoteLiteral(this.file.path);
+    switch (this.file.format) {
+      case 'csv': {
+        const options = [
+          this.csvHeader === null ? '' : `header = ${this.csvHeader}`,
+          this.csvDelimiter ? `delim = ${quoteLiteral(this.csvDelimiter)}` : '',
+        ].filter(Boolean);
+        return `read_csv_auto(${[fileName, ...options].join(', ')})`;
+      }
+      case 'parquet':
+        return `read_parquet(${fileName})`;
+      case 'json':
+        return `read_json_auto(${fileName})`;
+    }
+  }
+
+  private async registerFile(file: File) {
+    if (this.creating) {
+      return;
+    }
+    const format = getFileFormat(file.name);
+    if (!format) {
+      this.error = `Unsupported file "${file.name}": expected a CSV, Parquet or JSON file`;
+      return;
+    }
+    if (!this.connection) {
+      this.error = 'No database connection available';
+      return;
+    }
+
+    this.error = '';
+    await this.dropFile();
+    const path = `duckdb-grid-import-${++registeredFileCount}-${file.name}`;
+    try {
+      await this.connection.bindings.registerFileHandle(
+        path,
+        file,
+        DuckDBDataProtocol.BROWSER_FILEREADER,
+        true
+      );
+    } catch (err) {
+      this.error = `Failed to register file "${file.name}": ${
+        err instanceof Error ? err.message : 'Unknown error'
+      }`;
+      return;
+    }
+
+    this.file = {name: file.name, path, format};
+    this.tableName = getDefaultTableName(file.name);
+    this.csvHeader = null;
+    this.csvDelimiter = '';
+    this.fetchPreview();
+  }
+
+  private async fetchPreview() {
+    const previewId = ++this.previewId;
+    if (!this.file) {
+      this.previewState = {status: 'idle'};
+      return;
+    }
+
+    this.previewState = {status: 'loading'};
+    try {
+      const reader = this.getReader();
+      const [describeResult, rows] = await runExclusive(
+        this.connection,
+        async () => [
+          await this.connection.query(`DESCRIBE SELECT * FROM ${reader}`),
+          await this.connection.query(
+            `SELECT * FROM ${reader} LIMIT ${PREVIEW_ROW_COUNT}`
+          ),
+        ]
+      );
+      if (previewId !== this.previewId) {
+        return;
+      }
+      this.previewState = {
+        status: 'loaded',
+        columns: describeResult.toArray().map((row) => ({
+          name: row.column_name as string,
+          type: row.column_type as string,
+        })),
+        rows,
+      };
+    } catch (err) {
+      if (previewId !== this.previewId) {
+        return;
+      }
+      this.previewState = {
+        status: 'error',
+        error: `Failed to read file "${this.file.name}": ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`,
+      };
+    }
+  }
+
+  private async create() {
+    // Other files cannot be picked until the creation is done
+    const file = this.file;
+    if (!file || !this.tableName.trim()) {
+      return;
+    }
+
+    const name = this.tableName.trim();
+    const tableName = quoteIdentifier(name);
+    const createAs = this.createAs;
+    const reader = this.getReader();
+    this.creating = true;
+    this.error = '';
+    try {
+      await runExclusive(this.connection, () =>
+        this.connection.query(
+          `CREATE ${createAs.toUpperCase()} ${tableName} AS SELECT * FROM ${reader}`
+        )
+      );
+      // Views keep reading the registered file, tables do not
+      if (createAs === 'table') {
+        await this.connection.bindings.dropFile(file.path);
+      }
+    } catch (err) {
+      this.error = `Failed to create ${createAs} "${name}": ${
+        err instanceof Error ? err.message : 'Unknown error'
+      }`;
+      return;
+    } finally {
+      this.creating = false;
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('table-imported', {
+        detail: {
+          tableName,
+          name,
+          type: createAs,
+          fileName: file.name,
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+    if (this.file === file) {
+      this.file = null;
+      this.previewState = {status: 'idle'};
+    }
+  }
+
+  /** Unregisters the file being imported, if any, and clears its preview. */
+  private async dropFile() {
+    const file = this.file;
+    this.file = null;
+    ++this.previewId;
+    this.previewState = {status: 'idle'};
+    if (file) {
+      try {
+        await this.connection.bindings.dropFile(file.path);
+      } catch {
+        // The file is no longer registered
+      }
+    }
+  }
+
+  private _onDrop(e: DragEvent) {
+    e.preventDefault();
+    this.dragging = false;
+    const file = e.dataTransfer?.files[0];
+    if (file) {
+      this.registerFile(file);
+    }
+  }
+
+  private _onFileChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) {
+      this.registerFile(file);
+    }
+    input.value = '';
+  }
+
+  private renderCsvOptions() {
+    return html`
+      <label>
+        Header
+        <select
+          .value=${this.csvHeader === null ? 'auto' : String(this.csvHeader)}
+          @change=${(e: Event) => {
+            const value = (e.target as HTMLSelectElement).value;
+            this.csvHeader = value === 'auto' ? null : value === 'true';
+            this.fetchPreview();
+          }}
+        >
+          <option value="auto">Detect</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      </label>
+      <label>
+        Delimiter
+        <input
+          class="delimiter-input"
+          type="text"
+          maxlength="1"
+          placeholder="auto"
+          .value=${this.csvDelimiter}
+          @change=${(e: Event) => {
+            this.csvDelimiter = (e.target as HTMLInputElement).value;
+            this.fetchPreview();
+          }}
+        />
+      </label>
+    `;
+  }
+
+  private renderPreview() {
+    if (!this.file) {
+      return '';
+    }
+
+    return html`
+      <div part="preview">
+        <div class="options">
+          <strong>${this.file.name}</strong>
+          ${this.file.format === 'csv' ? this.renderCsvOptions() : ''}
+          <label>
+            Create
+            <select
+              .value=${this.createAs}
+              @change=${(e: Event) =>
+                (this.createAs = (e.target as HTMLSelectElement).value as
+                  | 'table'
+                  | 'view')}
+            >
+              <option value="table">Table</option>
+              <option value="view">View</option>
+            </select>
+          </label>
+          <label>
+            Name
+            <input
+              type="text"
+              .value=${this.tableName}
+              @input=${(e: Event) =>
+                (this.tableName = (e.target as HTMLInputElement).value)}
+            />
+          </label>
+          <button
+            ?disabled=${this.creating ||
+            this.previewState.status !== 'loaded' ||
+            !this.tableName.trim()}
+            @click=${this.create}
+          >
+            ${this.creating ? 'Creating...' : `Create ${this.createAs}`}
+          </button>
+          <button ?disabled=${this.creating} @click=${this.dropFile}>
+            Cancel
+          </button>
+        </div>
+        ${this.previewState.status === 'loading'
+          ? html`<div class="loading">Reading file...</div>`
+          : this.previewState.status === 'error'
+          ? html`<div class="error">${this.previewState.error}</div>`
+          : this.previewState.status === 'loaded'
+          ? html`
+              <div class="section-title">Inferred schema</div>
+              <div class="columns">
+                ${this.previewState.columns.map(
+                  (column) => html`<span>
+                    ${column.name}
+                    <span class="column-type">${column.type}</span>
+                  </span>`
+                )}
+              </div>
+              <div class="section-title">First ${PREVIEW_ROW_COUNT} rows</div>
+              <duckdb-grid-table-data
+                .table=${this.previewState.rows}
+              ></duckdb-grid-table-data>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  override render() {
+    return html`
+      <div
+        class="drop-zone ${this.dragging ? 'dragging' : ''}"
+        part="drop-zone"
+        @dragover=${(e: DragEvent) => {
+          e.preventDefault();
+          this.dragging = true;
+        }}
+        @dragleave=${() => (this.dragging = false)}
+        @drop=${this._onDrop}
+      >
+        Drop a CSV, Parquet or JSON file here, or
+        <input
+          type="file"
+          accept=${Object.keys(FILE_FORMATS)
+            .map((extension) => `.${extension}`)
+            .join(',')}
+          ?disabled=${this.creating}
+          @change=${this._onFileChange}
+        />
+      </div>
+      ${this.error ? html`<div class="error">${this.error}</div>` : ''}
+      ${this.renderPreview()}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-file-import': DuckDbGridFileImport;
+  }
+}
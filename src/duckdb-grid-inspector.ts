@@ -1,17 +1,85 @@
 import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
 import {Table} from 'apache-arrow';
 import {css, html, LitElement} from 'lit';
-import {customElement, property, state} from 'lit/decorators.js';
+import {customElement, property, query, state} from 'lit/decorators.js';
+import {CellRenderers} from './cellRenderers.js';
+import {
+  applyChangeset,
+  CellText,
+  Changeset,
+  countChanges,
+  EditableTable,
+  EMPTY_CHANGESET,
+  fetchEditableTable,
+  getCellKey,
+  validateCell,
+} from './changeset.js';
+import {ColumnState} from './columnState.js';
+import {ColumnFilter, compileWhere, describeFilter} from './filter.js';
+import {
+  compilePivotQuery,
+  EMPTY_PIVOT,
+  fetchPivotKeys,
+  MAX_PIVOT_COLUMNS,
+  PIVOT_DEPTH_COLUMN,
+  PivotConfig,
+} from './pivot.js';
+import './duckdb-grid-pivot-panel.js';
+import {compileOrderBy, SortColumn} from './sort.js';
+import {
+  FlattenedColumn,
+  flattenColumns,
+  parseQualifiedName,
+  queryWithParams,
+  quoteIdentifier,
+  quoteQualifiedName,
+  runExclusive,
+} from './sql.js';
+import {streamQuery} from './stream.js';
+import type {DuckDbGridTableSelect} from './duckdb-grid-table-select.js';
 import './duckdb-grid-table-select.js';
 import './duckdb-grid-table-schema.js';
+import './duckdb-grid-table-profile.js';
+import './duckdb-grid-export-menu.js';
+import './duckdb-grid-file-import.js';
 import './duckdb-grid-table-data.js';
 
+/** VARCHAR columns with at most this many distinct values get a pick-list. */
+const MAX_PICK_LIST_SIZE = 50;
+
 /**
  * A web component that combines table selection and schema inspection for DuckDB databases.
  * This component provides a unified interface to browse and inspect database tables.
  *
+ * Table data is paged on the DuckDB side: only `pageSize` rows starting at
+ * `page * pageSize` are fetched at a time. Sorting the grid is pushed down as
+ * an `ORDER BY` so that it applies to the whole table, and its filters are
+ * compiled to a parameterized `WHERE` applied to both the data and the count.
+ * Nested columns can be flattened from the grid, which rewrites the query
+ * with `UNNEST`.
+ *
+ * Tables with a primary key can be edited from the data view. Cell edits,
+ * deleted and inserted rows are staged in a changeset, validated cell by
+ * cell against the column types, and applied in a single transaction.
+ *
+ * The data view can also be pivoted: its rows are grouped and aggregated,
+ * with collapsible subtotals, and spread across the values of some columns.
+ *
+ * @fires page-changed - Indicates when the user navigates to another page
+ * @fires filter-changed - Indicates when the user changes the filters
+ * @fires changes-applied - Indicates when staged edits are written to the
+ * table. The detail holds the `tableName` and the `changeCount`.
  * @csspart table-select - The table select component
  * @csspart table-schema - The table schema component
+ * @csspart table-profile - The column profile component
+ * @csspart pagination - The page controls below the table data
+ * @csspart export-menu - The export menu of the table data
+ * @csspart file-import - The file import component
+ * @csspart edit-bar - The edit mode controls of the data view
+ * @csspart pivot-button - The button toggling the pivot mode
+ * @csspart pivot-panel - The layout of the pivot
+ * @csspart pivot-filters - The filters applied to the pivot, whose filter
+ * row is hidden
  * @csspart container - The main container
  */
 @customElement('duckdb-grid-inspector')
@@ -92,6 +160,29 @@ export class DuckDbGridInspector extends LitElement {
       box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
     }
 
+    .import-button {
+      padding: 8px 16px;
+      border: 1px solid #ccc;
+      border-radius: 16px;
+      background: white;
+      color: #666;
+      font-size: 14px;
+      font-weight: 500;
+      cursor: pointer;
+    }
+
+    .import-button.active {
+      border-color: #333;
+      color: #333;
+    }
+
+    duckdb-grid-file-import {
+      background: white;
+      border: none;
+      border-radius: 6px;
+      box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+    }
+
     .content-area {
       background: white;
       border-radius: 6px;
@@ -109,6 +200,11 @@ export class DuckDbGridInspector extends LitElement {
       padding: 0;
     }
 
+    duckdb-grid-table-profile {
+      border: none;
+      padding: 0;
+    }
+
     duckdb-grid-table-data {
       border: none;
       padding: 0;
@@ -144,28 +240,334 @@ export class DuckDbGridInspector extends LitElement {
       text-align: center;
       font-style: italic;
     }
+
+    .data-toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    duckdb-grid-export-menu {
+      margin-left: auto;
+    }
+
+    .flattened-bar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px;
+      border-bottom: 1px solid #eee;
+      font-size: 14px;
+      color: #666;
+    }
+
+    .pivot-filters {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      padding: 0 8px 8px;
+      font-size: 12px;
+      color: #666;
+    }
+
+    .pivot-filters .filter-chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      padding: 2px 4px 2px 8px;
+      border: 1px solid #ccc;
+      border-radius: 12px;
+      background: white;
+      color: #333;
+    }
+
+    .pivot-filters .filter-chip button {
+      padding: 0 4px;
+      border: none;
+      background: none;
+      cursor: pointer;
+    }
+
+    .flattened-bar button,
+    .pivot-filters > button {
+      background: white;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      padding: 2px 8px;
+      cursor: pointer;
+      font-size: 12px;
+    }
+
+    .edit-bar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px;
+      font-size: 14px;
+      color: #666;
+    }
+
+    .edit-bar button,
+    .pivot-button {
+      background: white;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      padding: 2px 8px;
+      cursor: pointer;
+      font-size: 12px;
+    }
+
+    .edit-bar button.active,
+    .pivot-button.active {
+      background-color: #e8f0fe;
+      border-color: #007bff;
+    }
+
+    .edit-bar button.apply-button {
+      background-color: #007bff;
+      border-color: #007bff;
+      color: white;
+    }
+
+    .edit-bar button:disabled,
+    .pivot-button:disabled {
+      color: #aaa;
+      cursor: not-allowed;
+    }
+
+    .edit-bar button.apply-button:disabled {
+      background-color: #6c757d;
+      border-color: #6c757d;
+      color: white;
+    }
+
+    duckdb-grid-pivot-panel {
+      padding: 0 8px;
+    }
+
+    .pivot-notice {
+      padding: 0 8px 8px;
+      color: #8a6d3b;
+      font-size: 12px;
+    }
+
+    .edit-error {
+      color: #d32f2f;
+    }
+
+    .pagination {
+      display: flex;
+      justify-content: flex-end;
+      align-items: center;
+      gap: 8px;
+      padding: 8px;
+      border-top: 1px solid #eee;
+      font-size: 14px;
+      color: #666;
+    }
+
+    .pagination button {
+      background: white;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      padding: 4px 10px;
+      cursor: pointer;
+      font-size: 14px;
+    }
+
+    .pagination button:disabled {
+      color: #aaa;
+      cursor: not-allowed;
+    }
   `;
 
   @property({type: Object})
   connection!: AsyncDuckDBConnection;
 
+  /** Number of rows fetched per page. */
+  @property({type: Number})
+  pageSize = 1000;
+
+  /** Zero-based index of the displayed page. */
+  @property({type: Number})
+  page = 0;
+
+  /** The active filters of the data view. */
+  @property({type: Array})
+  filters: ColumnFilter[] = [];
+
+  /**
+   * Layouts of the columns of the data view, by table name. Layouts changed
+   * by the user are kept here, and reported through `column-state-changed`.
+   */
+  @property({attribute: false})
+  columnStates: Record<string, ColumnState> = {};
+
+  /** Locale of the numbers of the data grid, the browser's by default. */
+  @property({type: String})
+  locale: string | null = null;
+
+  /** Time zone of the TIMESTAMP WITH TIME ZONE values, UTC by default. */
+  @property({type: String})
+  timeZone: string | null = null;
+
+  /** Custom renderers of the cells of the data grid, see `CellRenderers`. */
+  @property({attribute: false})
+  cellRenderers: CellRenderers = {};
+
+  /** @deprecated Use `pageSize` instead. */
   @property({type: Number})
-  maxRowCount = 10000;
+  get maxRowCount() {
+    return this.pageSize;
+  }
+  set maxRowCount(value: number) {
+    this.pageSize = value;
+  }
 
   @state()
   private selectedTableName = '';
 
   @state()
-  private selectedView: 'data' | 'schema' = 'data';
+  private sort: SortColumn[] = [];
+
+  @state()
+  private flattenedColumns: FlattenedColumn[] = [];
+
+  /** Columns of the selected table, which can be pivoted. */
+  @state()
+  private tableColumns: {name: string; type: string}[] = [];
+
+  @state()
+  private filterOptions: Record<string, string[]> = {};
+
+  /** VARCHAR columns whose pick-list is loaded once their filter is focused. */
+  private pickListColumns = new Set<string>();
+
+  @query('duckdb-grid-table-select')
+  private tableSelect!: DuckDbGridTableSelect;
+
+  @state()
+  private showImport = false;
+
+  @state()
+  private selectedView: 'data' | 'schema' | 'profile' = 'data';
 
   @state()
   private tableState:
     | {status: 'idle'}
     | {status: 'loading'}
-    | {status: 'loaded'; table: Table; totalRowCount: number}
+    | {
+        status: 'loaded';
+        table: Table;
+        /** Number of rows matching the filters, or null until counted */
+        totalRowCount: number | null;
+        /** Whether rows of the page are still arriving */
+        streaming: boolean;
+        /** The unpaged query and its parameters, for exports */
+        query: string;
+        params: unknown[];
+      }
+    | {status: 'error'; error: string} = {status: 'idle'};
+
+  /** Columns and primary key of the selected table, for editing. */
+  @state()
+  private editableTable: EditableTable | null = null;
+
+  @state()
+  private editing = false;
+
+  /** Edits staged in the data view. */
+  @state()
+  private changeset: Changeset = EMPTY_CHANGESET;
+
+  /** Changesets preceding each staged edit, most recent last. */
+  @state()
+  private undoStack: Changeset[] = [];
+
+  /** Validation errors of the staged cells, by `getCellKey`. */
+  @state()
+  private cellErrors: Record<string, string> = {};
+
+  /** Error of the row that made the last apply fail, by row key. */
+  @state()
+  private rowErrors: Record<string, string> = {};
+
+  @state()
+  private applyState:
+    | {status: 'idle'}
+    | {status: 'applying'}
     | {status: 'error'; error: string} = {status: 'idle'};
 
+  /** Whether the data view shows the pivot of the table. */
+  @state()
+  private pivotMode = false;
+
+  @state()
+  private pivotConfig: PivotConfig = EMPTY_PIVOT;
+
+  /** Whether values of the pivot columns were left out. */
+  @state()
+  private pivotTruncated = false;
+
+  /** Incremented on every fetch so that stale responses can be discarded. */
+  private fetchId = 0;
+
+  /** Validations of the staged cells that are still running. */
+  private pendingValidations = new Set<Promise<string | null>>();
+
+  private insertCount = 0;
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    super.willUpdate(changedProperties);
+    if (
+      changedProperties.has('connection') ||
+      changedProperties.has('selectedTableName') ||
+      changedProperties.has('sort') ||
+      changedProperties.has('filters') ||
+      changedProperties.has('flattenedColumns') ||
+      changedProperties.has('page') ||
+      changedProperties.has('pageSize') ||
+      changedProperties.has('pivotMode') ||
+      changedProperties.has('pivotConfig')
+    ) {
+      this.fetchTableData();
+    }
+
+    if (
+      changedProperties.has('connection') ||
+      changedProperties.has('selectedTableName')
+    ) {
+      this.fetchFilterOptions();
+      this.fetchEditableTable();
+      this.editing = false;
+      this.resetEdits();
+      this.pivotMode = false;
+      this.pivotConfig = EMPTY_PIVOT;
+    }
+  }
+
+  /**
+   * Runs queries in the queue of the connection, shared with the child
+   * components, see `runExclusive`.
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return runExclusive(this.connection, task);
+  }
+
+  /** Number of pages, or null until the rows have been counted. */
+  private get pageCount() {
+    if (this.tableState.status !== 'loaded') {
+      return 1;
+    }
+    return this.tableState.totalRowCount === null
+      ? null
+      : Math.max(1, Math.ceil(this.tableState.totalRowCount / this.pageSize));
+  }
+
   private async fetchTableData() {
+    const fetchId = ++this.fetchId;
+
     if (!this.connection || !this.selectedTableName) {
       this.tableState = {status: 'idle'};
       return;
@@ -174,19 +576,79 @@ export class DuckDbGridInspector extends LitElement {
     this.tableState = {status: 'loading'};
 
     try {
-      // Get total row count
-      const countResult = await this.connection.query(
-        `SELECT COUNT(*) as count FROM ${this.selectedTableName}`
-      );
-      const totalRowCount = Number(countResult.toArray()[0].count);
+      const tableName = quoteQualifiedName(this.selectedTableName);
+      const source =
+        this.flattenedColumns.length > 0
+          ? `(${flattenColumns(tableName, this.flattenedColumns)})`
+          : tableName;
+      const where = compileWhere(this.filters);
 
-      // Get limited data
-      const result = await this.connection.query(
-        `SELECT * FROM ${this.selectedTableName} LIMIT ${this.maxRowCount}`
+      let query = `SELECT * FROM ${source}${where.sql}${compileOrderBy(
+        this.sort
+      )}`;
+      let countQuery = `SELECT COUNT(*) as count FROM ${source}${where.sql}`;
+      if (this.pivotMode) {
+        const {keys, truncated} = await this.runExclusive(() =>
+          fetchPivotKeys(this.connection, source, this.pivotConfig, where)
+        );
+        if (fetchId !== this.fetchId) {
+          return;
+        }
+        query = compilePivotQuery(source, this.pivotConfig, where, keys).sql;
+        countQuery = `SELECT COUNT(*) as count FROM (${query})`;
+        this.pivotTruncated = truncated;
+      }
+
+      // Stream the current page, displaying its rows as they arrive
+      const pageSize = Math.max(1, Math.floor(this.pageSize));
+      const page = Math.max(0, Math.floor(this.page));
+      const {table} = await this.runExclusive(() =>
+        streamQuery(
+          this.connection,
+          `${query} LIMIT ${pageSize} OFFSET ${page * pageSize}`,
+          where.params,
+          {
+            isStale: () => fetchId !== this.fetchId,
+            onProgress: (table) => {
+              this.tableState = {
+                status: 'loaded',
+                table,
+                totalRowCount: null,
+                streaming: true,
+                query,
+                params: where.params,
+              };
+            },
+          }
+        )
       );
+      if (fetchId !== this.fetchId) {
+        return;
+      }
+      this.tableState = {
+        status: 'loaded',
+        table,
+        totalRowCount: null,
+        streaming: false,
+        query,
+        params: where.params,
+      };
 
-      this.tableState = {status: 'loaded', table: result, totalRowCount};
+      // Then count the rows matching the filters, for the pagination
+      const countResult = await this.runExclusive(() =>
+        queryWithParams(this.connection, countQuery, where.params)
+      );
+      if (fetchId !== this.fetchId) {
+        return;
+      }
+      this.tableState = {
+        ...this.tableState,
+        totalRowCount: Number(countResult.toArray()[0].count),
+      };
     } catch (err) {
+      if (fetchId !== this.fetchId) {
+        return;
+      }
       this.tableState = {
         status: 'error',
         error: err instanceof Error ? err.message : 'Unknown error',
@@ -194,6 +656,526 @@ export class DuckDbGridInspector extends LitElement {
     }
   }
 
+  /**
+   * Describes the columns of the table, for the pivot, then lists the values
+   * of the ENUM columns, read from their type, and the VARCHAR columns that
+   * may get a pick-list, see `fetchColumnOptions`.
+   */
+  private async fetchFilterOptions() {
+    const tableName = this.selectedTableName;
+    this.tableColumns = [];
+    this.filterOptions = {};
+    this.pickListColumns = new Set();
+    if (!this.connection || !tableName) {
+      return;
+    }
+
+    try {
+      const describeResult = await this.runExclusive(() =>
+        this.connection.query(`DESCRIBE ${quoteQualifiedName(tableName)}`)
+      );
+      const columns = describeResult.toArray().map((row) => ({
+        name: row.column_name as string,
+        type: row.column_type as string,
+      }));
+      if (tableName !== this.selectedTableName) {
+        return;
+      }
+      this.tableColumns = columns;
+
+      const filterOptions: Record<string, string[]> = {};
+      const pickListColumns = new Set<string>();
+      for (const {name, type} of columns) {
+        if (type === 'VARCHAR') {
+          pickListColumns.add(name);
+        } else if (type.startsWith('ENUM(')) {
+          const result = await this.runExclusive(() =>
+            this.connection.query(
+              `SELECT CAST(unnest(enum_range(NULL::${type})) AS VARCHAR) AS value`
+            )
+          );
+          filterOptions[name] = result.toArray().map((r) => r.value as string);
+        }
+      }
+
+      if (tableName === this.selectedTableName) {
+        this.filterOptions = filterOptions;
+        this.pickListColumns = pickListColumns;
+      }
+    } catch {
+      // Pick-lists are optional: columns fall back to their default input
+    }
+  }
+
+  /**
+   * Loads the pick-list of a VARCHAR column, unless it has more than
+   * `MAX_PICK_LIST_SIZE` distinct values and keeps its text filter.
+   */
+  private async fetchColumnOptions(columnName: string) {
+    const tableName = this.selectedTableName;
+    if (!this.pickListColumns.delete(columnName)) {
+      return;
+    }
+
+    try {
+      const column = quoteIdentifier(columnName);
+      const result = await this.runExclusive(() =>
+        this.connection.query(
+          `SELECT DISTINCT ${column} AS value FROM ${quoteQualifiedName(
+            tableName
+          )} WHERE ${column} IS NOT NULL ORDER BY value LIMIT ${
+            MAX_PICK_LIST_SIZE + 1
+          }`
+        )
+      );
+      const values = result.toArray().map((r) => r.value as string);
+      if (
+        tableName === this.selectedTableName &&
+        values.length <= MAX_PICK_LIST_SIZE
+      ) {
+        this.filterOptions = {...this.filterOptions, [columnName]: values};
+      }
+    } catch {
+      // The column keeps its text filter
+    }
+  }
+
+  private async fetchEditableTable() {
+    const tableName = this.selectedTableName;
+    this.editableTable = null;
+    if (!this.connection || !tableName) {
+      return;
+    }
+
+    try {
+      const editableTable = await this.runExclusive(() =>
+        fetchEditableTable(this.connection, tableName)
+      );
+      if (tableName === this.selectedTableName) {
+        this.editableTable = editableTable;
+      }
+    } catch {
+      // The table cannot be edited without its primary key
+    }
+  }
+
+  private resetEdits() {
+    this.changeset = EMPTY_CHANGESET;
+    this.undoStack = [];
+    this.cellErrors = {};
+    this.rowErrors = {};
+    this.applyState = {status: 'idle'};
+  }
+
+  /** Stages a new changeset, keeping the current one for undo. */
+  private stageChangeset(changeset: Changeset) {
+    this.undoStack = [...this.undoStack, this.changeset];
+    this.changeset = changeset;
+    this.rowErrors = {};
+    this.cellErrors = this.getStagedErrors(changeset);
+  }
+
+  /** Keeps the validation errors of the cells still staged. */
+  private getStagedErrors(changeset: Changeset) {
+    return Object.fromEntries(
+      Object.entries(this.cellErrors).filter(([cellKey]) => {
+        const [rowKey, column] = JSON.parse(cellKey) as [string, string];
+        const values =
+          changeset.updates[rowKey] ??
+          changeset.inserts.find(({id}) => id === rowKey)?.values;
+        return values !== undefined && column in values;
+      })
+    );
+  }
+
+  private async handleCellEdited(
+    e: CustomEvent<{
+      rowKey: string;
+      inserted: boolean;
+      column: string;
+      value: CellText;
+      original: CellText;
+    }>
+  ) {
+    const {rowKey, inserted, column, value, original} = e.detail;
+    const {updates, inserts} = this.changeset;
+    const isReverted = !inserted && value === original;
+
+    if (inserted) {
+      this.stageChangeset({
+        ...this.changeset,
+        inserts: inserts.map((row) =>
+          row.id === rowKey
+            ? {...row, values: {...row.values, [column]: value}}
+            : row
+        ),
+      });
+    } else {
+      const values = {...updates[rowKey]};
+      if (isReverted) {
+        delete values[column];
+      } else {
+        values[column] = value;
+      }
+      const newUpdates = {...updates, [rowKey]: values};
+      if (Object.keys(values).length === 0) {
+        delete newUpdates[rowKey];
+      }
+      this.stageChangeset({...this.changeset, updates: newUpdates});
+    }
+
+    const editableColumn = this.editableTable?.columns.find(
+      ({name}) => name === column
+    );
+    if (isReverted || !editableColumn) {
+      return;
+    }
+
+    const cellKey = getCellKey(rowKey, column);
+    const validation = this.runExclusive(() =>
+      validateCell(this.connection, editableColumn, value)
+    );
+    this.pendingValidations.add(validation);
+    let error: string | null;
+    try {
+      error = await validation;
+    } finally {
+      this.pendingValidations.delete(validation);
+    }
+    // The cell may have been edited again in the meantime
+    const values = inserted
+      ? this.changeset.inserts.find(({id}) => id === rowKey)?.values
+      : this.changeset.updates[rowKey];
+    if (!values || values[column] !== value) {
+      return;
+    }
+    const cellErrors = {...this.cellErrors};
+    if (error) {
+      cellErrors[cellKey] = error;
+    } else {
+      delete cellErrors[cellKey];
+    }
+    this.cellErrors = cellErrors;
+  }
+
+  private toggleRowDelete(rowKey: string) {
+    const {deletes} = this.changeset;
+    this.stageChangeset({
+      ...this.changeset,
+      deletes: deletes.includes(rowKey)
+        ? deletes.filter((key) => key !== rowKey)
+        : [...deletes, rowKey],
+    });
+  }
+
+  private addRow() {
+    this.stageChangeset({
+      ...this.changeset,
+      inserts: [
+        ...this.changeset.inserts,
+        {id: `new-${++this.insertCount}`, values: {}},
+      ],
+    });
+  }
+
+  private removeInsertedRow(id: string) {
+    this.stageChangeset({
+      ...this.changeset,
+      inserts: this.changeset.inserts.filter((row) => row.id !== id),
+    });
+  }
+
+  private undo() {
+    const changeset = this.undoStack[this.undoStack.length - 1];
+    if (!changeset) {
+      return;
+    }
+    this.undoStack = this.undoStack.slice(0, -1);
+    this.changeset = changeset;
+    this.rowErrors = {};
+    this.cellErrors = this.getStagedErrors(changeset);
+  }
+
+  private async applyChanges() {
+    const editableTable = this.editableTable;
+    const tableName = this.selectedTableName;
+    const changeCount = countChanges(this.changeset);
+    if (!editableTable || changeCount === 0) {
+      return;
+    }
+
+    // The data view is inert while applying: the changeset stays the same
+    // and no other table, page, sort or filter can be fetched
+    this.applyState = {status: 'applying'};
+    try {
+      await Promise.all(this.pendingValidations);
+      if (Object.keys(this.cellErrors).length > 0) {
+        this.applyState = {status: 'idle'};
+        return;
+      }
+
+      // The transaction is opened on the shared connection: no other query
+      // may run until it ends
+      const changeset = this.changeset;
+      const result = await this.runExclusive(() =>
+        applyChangeset(this.connection, tableName, editableTable, changeset)
+      );
+      if (result.status === 'failed') {
+        this.rowErrors =
+          result.rowKey !== null ? {[result.rowKey]: result.error} : {};
+        this.applyState = {status: 'error', error: result.error};
+        return;
+      }
+
+      this.resetEdits();
+      this.fetchTableData();
+      this.fetchFilterOptions();
+      this.dispatchEvent(
+        new CustomEvent('changes-applied', {
+          detail: {tableName, changeCount},
+          bubbles: true,
+          composed: true,
+        })
+      );
+    } catch (err) {
+      this.applyState = {
+        status: 'error',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      };
+    }
+  }
+
+  private renderEditBar() {
+    const canEdit =
+      (this.editableTable?.primaryKey.length ?? 0) > 0 &&
+      this.flattenedColumns.length === 0 &&
+      !this.pivotMode;
+    const changeCount = countChanges(this.changeset);
+    const errorCount = Object.keys(this.cellErrors).length;
+    const isApplying = this.applyState.status === 'applying';
+
+    return html`
+      <div class="edit-bar" part="edit-bar">
+        <button
+          class=${this.editing ? 'active' : ''}
+          aria-pressed=${this.editing ? 'true' : 'false'}
+          ?disabled=${!canEdit || changeCount > 0}
+          title=${!canEdit
+            ? 'Only tables with a primary key, without flattened columns or pivot, can be edited'
+            : changeCount > 0
+            ? 'Apply or discard the changes first'
+            : ''}
+          @click=${() => (this.editing = !this.editing)}
+        >
+          Edit
+        </button>
+        ${this.editing
+          ? html`
+              <button ?disabled=${isApplying} @click=${this.addRow}>
+                Add row
+              </button>
+              <button
+                ?disabled=${this.undoStack.length === 0 || isApplying}
+                @click=${this.undo}
+              >
+                Undo
+              </button>
+              <button
+                ?disabled=${changeCount === 0 || isApplying}
+                @click=${this.resetEdits}
+              >
+                Discard
+              </button>
+              <button
+                class="apply-button"
+                ?disabled=${changeCount === 0 || errorCount > 0 || isApplying}
+                title=${errorCount > 0 ? 'Fix the invalid cells first' : ''}
+                @click=${this.applyChanges}
+              >
+                ${isApplying
+                  ? 'Applying...'
+                  : `Apply ${changeCount} change${
+                      changeCount === 1 ? '' : 's'
+                    }`}
+              </button>
+              ${this.applyState.status === 'error'
+                ? html`<span class="edit-error">${this.applyState.error}</span>`
+                : errorCount > 0
+                ? html`<span class="edit-error"
+                    >${errorCount} invalid
+                    cell${errorCount === 1 ? '' : 's'}</span
+                  >`
+                : ''}
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  private renderPivotButton() {
+    const canPivot =
+      this.tableColumns.length > 0 &&
+      this.flattenedColumns.length === 0 &&
+      !this.editing;
+
+    return html`<button
+      class="pivot-button ${this.pivotMode ? 'active' : ''}"
+      part="pivot-button"
+      aria-pressed=${this.pivotMode ? 'true' : 'false'}
+      ?disabled=${!canPivot}
+      title=${canPivot
+        ? ''
+        : this.tableColumns.length === 0
+        ? 'The columns of the table could not be loaded'
+        : 'Tables cannot be pivoted while flattened or edited'}
+      @click=${() => {
+        this.pivotMode = !this.pivotMode;
+        this.page = 0;
+      }}
+    >
+      Pivot
+    </button>`;
+  }
+
+  private flattenColumn(column: FlattenedColumn) {
+    if (this.flattenedColumns.some((c) => c.column === column.column)) {
+      return;
+    }
+
+    // The column is replaced, so its sort and filters no longer apply
+    this.flattenedColumns = [...this.flattenedColumns, column];
+    this.sort = this.sort.filter((s) => s.column !== column.column);
+    if (this.filters.some((f) => f.column === column.column)) {
+      this.filters = this.filters.filter((f) => f.column !== column.column);
+    }
+    this.page = 0;
+  }
+
+  private renderFlattenedBar() {
+    if (this.flattenedColumns.length === 0) {
+      return '';
+    }
+
+    return html`
+      <div class="flattened-bar">
+        <span>
+          Flattened:
+          ${this.flattenedColumns.map(({column}) => column).join(', ')}
+        </span>
+        <button
+          @click=${() => {
+            this.flattenedColumns = [];
+            this.sort = [];
+            this.filters = [];
+            this.page = 0;
+          }}
+        >
+          Reset
+        </button>
+      </div>
+    `;
+  }
+
+  private setFilters(filters: ColumnFilter[]) {
+    this.filters = filters;
+    this.page = 0;
+    this.dispatchEvent(
+      new CustomEvent('filter-changed', {
+        detail: {filters},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /** Lists the filters of the table, which still apply to its pivot. */
+  private renderPivotFilters() {
+    if (this.filters.length === 0) {
+      return '';
+    }
+
+    return html`
+      <div class="pivot-filters" part="pivot-filters">
+        <span>Filtered by</span>
+        ${this.filters.map((filter) => {
+          const description = describeFilter(filter);
+          return html`<span class="filter-chip">
+            ${description}
+            <button
+              title="Remove the filter"
+              aria-label="Remove the filter ${description}"
+              @click=${() =>
+                this.setFilters(this.filters.filter((f) => f !== filter))}
+            >
+              ✕
+            </button>
+          </span>`;
+        })}
+        <button @click=${() => this.setFilters([])}>Clear</button>
+      </div>
+    `;
+  }
+
+  private async onTableImported(e: CustomEvent) {
+    this.showImport = false;
+    this.selectedView = 'data';
+    await this.tableSelect.refresh();
+    this.tableSelect.selectTable(e.detail.tableName);
+  }
+
+  private goToPage(page: number) {
+    const pageCount = this.pageCount ?? Infinity;
+    const clampedPage = Math.min(Math.max(0, page), pageCount - 1);
+    if (clampedPage === this.page) {
+      return;
+    }
+
+    this.page = clampedPage;
+    this.dispatchEvent(
+      new CustomEvent('page-changed', {
+        detail: {page: this.page, pageSize: this.pageSize},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private renderPagination() {
+    const pageCount = this.pageCount;
+    const isFirst = this.page <= 0;
+    // The last page is unknown until the rows have been counted
+    const isLast = pageCount === null || this.page >= pageCount - 1;
+
+    return html`
+      <div
+        class="pagination"
+        part="pagination"
+        .inert=${this.applyState.status === 'applying'}
+      >
+        <button ?disabled=${isFirst} @click=${() => this.goToPage(0)}>«</button>
+        <button
+          ?disabled=${isFirst}
+          @click=${() => this.goToPage(this.page - 1)}
+        >
+          ‹
+        </button>
+        <span>Page ${this.page + 1} of ${pageCount ?? '…'}</span>
+        <button
+          ?disabled=${isLast}
+          @click=${() => this.goToPage(this.page + 1)}
+        >
+          ›
+        </button>
+        <button
+          ?disabled=${isLast}
+          @click=${() => pageCount !== null && this.goToPage(pageCount - 1)}
+        >
+          »
+        </button>
+      </div>
+    `;
+  }
+
   override render() {
     if (!this.connection) {
       return html`
@@ -227,14 +1209,29 @@ export class DuckDbGridInspector extends LitElement {
           <div class="table-select-container">
             <duckdb-grid-table-select
               part="table-select"
+              .inert=${this.applyState.status === 'applying'}
               .connection=${this.connection}
               @table-selected=${(e: CustomEvent) => {
+                // Filters set before the first table is selected are kept so
+                // that host apps can restore them
+                if (this.selectedTableName) {
+                  this.filters = [];
+                }
                 this.selectedTableName = e.detail.tableName;
-                this.fetchTableData();
+                this.sort = [];
+                this.flattenedColumns = [];
+                this.page = 0;
               }}
             ></duckdb-grid-table-select>
           </div>
 
+          <button
+            class="import-button ${this.showImport ? 'active' : ''}"
+            @click=${() => (this.showImport = !this.showImport)}
+          >
+            Import file
+          </button>
+
           <div class="view-toggle">
             <button
               class="view-toggle-button ${this.selectedView === 'data'
@@ -252,9 +1249,25 @@ export class DuckDbGridInspector extends LitElement {
             >
               Schema
             </button>
+            <button
+              class="view-toggle-button ${this.selectedView === 'profile'
+                ? 'active'
+                : ''}"
+              @click=${() => (this.selectedView = 'profile')}
+            >
+              Profile
+            </button>
           </div>
         </div>
 
+        ${this.showImport
+          ? html`<duckdb-grid-file-import
+              part="file-import"
+              .connection=${this.connection}
+              @table-imported=${this.onTableImported}
+            ></duckdb-grid-file-import>`
+          : ''}
+
         <!-- Row 3: Content Area -->
         <div class="content-area">
           ${this.selectedView === 'data'
@@ -264,19 +1277,121 @@ export class DuckDbGridInspector extends LitElement {
               ? html`<div class="error">${this.tableState.error}</div>`
               : this.tableState.status === 'loaded'
               ? html`
+                  <div class="data-toolbar">
+                    ${this.renderFlattenedBar()} ${this.renderPivotButton()}
+                    ${this.renderEditBar()}
+                    <duckdb-grid-export-menu
+                      part="export-menu"
+                      .connection=${this.connection}
+                      .table=${this.tableState.table}
+                      .query=${this.tableState.query}
+                      .params=${this.tableState.params}
+                      .fileName=${parseQualifiedName(this.selectedTableName)
+                        .name}
+                      ?disabled=${this.tableState.streaming ||
+                      this.applyState.status === 'applying'}
+                    ></duckdb-grid-export-menu>
+                  </div>
+                  ${this.pivotMode
+                    ? html`<duckdb-grid-pivot-panel
+                          part="pivot-panel"
+                          .columns=${this.tableColumns}
+                          .config=${this.pivotConfig}
+                          @pivot-changed=${(
+                            e: CustomEvent<{config: PivotConfig}>
+                          ) => {
+                            this.pivotConfig = e.detail.config;
+                            this.page = 0;
+                          }}
+                        ></duckdb-grid-pivot-panel>
+                        ${this.renderPivotFilters()}
+                        ${this.pivotTruncated
+                          ? html`<div class="pivot-notice">
+                              Only the first ${MAX_PIVOT_COLUMNS} values of the
+                              pivot columns are shown
+                            </div>`
+                          : ''}`
+                    : ''}
                   <duckdb-grid-table-data
                     part="table-data"
+                    .inert=${this.applyState.status === 'applying'}
                     .table=${this.tableState.table}
                     .totalRowCount=${this.tableState.totalRowCount}
+                    ?streaming=${this.tableState.streaming}
+                    .rowOffset=${this.page * this.pageSize}
+                    .locale=${this.locale}
+                    .timeZone=${this.timeZone}
+                    .cellRenderers=${this.cellRenderers}
+                    .tableName=${this.pivotMode ? null : this.selectedTableName}
+                    .columnState=${this.columnStates[this.selectedTableName] ??
+                    []}
+                    @column-state-changed=${(
+                      e: CustomEvent<{columnState: ColumnState}>
+                    ) =>
+                      (this.columnStates = {
+                        ...this.columnStates,
+                        [this.selectedTableName]: e.detail.columnState,
+                      })}
+                    .sort=${this.pivotMode ? [] : this.sort}
+                    sortMode="server"
+                    ?filterable=${!this.pivotMode}
+                    .filters=${this.filters}
+                    .filterOptions=${this.filterOptions}
+                    @filter-options-requested=${(
+                      e: CustomEvent<{column: string}>
+                    ) => this.fetchColumnOptions(e.detail.column)}
+                    filterMode="server"
+                    .rowGroups=${this.pivotMode &&
+                    this.pivotConfig.rows.length > 0
+                      ? {
+                          columns: this.pivotConfig.rows,
+                          depthColumn: PIVOT_DEPTH_COLUMN,
+                        }
+                      : null}
+                    ?flattenable=${!this.editing && !this.pivotMode}
+                    ?editable=${this.editing}
+                    .primaryKey=${this.editableTable?.primaryKey ?? []}
+                    .changeset=${this.changeset}
+                    .cellErrors=${this.cellErrors}
+                    .rowErrors=${this.rowErrors}
+                    @cell-edited=${this.handleCellEdited}
+                    @row-delete-toggled=${(e: CustomEvent<{rowKey: string}>) =>
+                      this.toggleRowDelete(e.detail.rowKey)}
+                    @inserted-row-removed=${(e: CustomEvent<{id: string}>) =>
+                      this.removeInsertedRow(e.detail.id)}
+                    @sort-changed=${(e: CustomEvent) => {
+                      // Pivots are ordered by their groups
+                      if (!this.pivotMode) {
+                        this.sort = e.detail.sort;
+                        this.page = 0;
+                      }
+                    }}
+                    @filter-changed=${(e: CustomEvent) => {
+                      this.filters = e.detail.filters;
+                      this.page = 0;
+                    }}
+                    @flatten-column=${(e: CustomEvent<FlattenedColumn>) =>
+                      this.flattenColumn(e.detail)}
                   ></duckdb-grid-table-data>
+                  ${this.renderPagination()}
                 `
               : html`<div class="no-data">Select a table to view data</div>`
-            : html`
+            : this.selectedView === 'schema'
+            ? html`
                 <duckdb-grid-table-schema
                   part="table-schema"
                   .connection=${this.connection}
                   .tableName=${this.selectedTableName}
+                  @referenced-table-clicked=${(e: CustomEvent) =>
+                    this.tableSelect.selectTable(e.detail.tableName)}
                 ></duckdb-grid-table-schema>
+              `
+            : html`
+                <duckdb-grid-table-profile
+                  part="table-profile"
+                  .connection=${this.connection}
+                  .tableName=${this.selectedTableName}
+                ></duckdb-grid-table-profile>
               `}
         </div>
       </div>
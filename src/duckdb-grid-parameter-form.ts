@@ -0,0 +1,236 @@
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {getParamValue, QueryParams} from './parameters.js';
+
+type ParameterType =
+  | 'text'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'null';
+
+const PARAMETER_TYPES: Record<ParameterType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Boolean',
+  date: 'Date',
+  timestamp: 'Timestamp',
+  null: 'NULL',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/** Guesses the type of a parameter from its value. */
+function getParameterType(value: unknown): ParameterType {
+  if (value === null) {
+    return 'null';
+  }
+  switch (typeof value) {
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'string':
+      return DATE_PATTERN.test(value)
+        ? 'date'
+        : TIMESTAMP_PATTERN.test(value)
+        ? 'timestamp'
+        : 'text';
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * A web component rendering an input per query parameter, whose type can be
+ * picked. Values are strings, numbers, booleans or null, which DuckDB casts
+ * to the types the query expects: dates and timestamps are ISO strings.
+ *
+ * @fires params-changed - Indicates when a value or type is changed. The
+ * detail holds the `params` by name; those left empty are missing.
+ * @csspart parameter - The label and inputs of a parameter
+ */
+@customElement('duckdb-grid-parameter-form')
+export class DuckDbGridParameterForm extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px 16px;
+      font-size: 13px;
+    }
+
+    label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .parameter-name {
+      font-family: 'Courier New', monospace;
+      font-weight: bold;
+    }
+
+    input,
+    select {
+      padding: 4px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+
+    input[type='text'] {
+      width: 140px;
+    }
+  `;
+
+  /** Names of the parameters, without their `$`. */
+  @property({attribute: false})
+  names: string[] = [];
+
+  @property({attribute: false})
+  params: QueryParams = {};
+
+  /** Types picked by the user, by parameter name. */
+  @state()
+  private types: Record<string, ParameterType> = {};
+
+  private getType(name: string): ParameterType {
+    return (
+      this.types[name] ?? getParameterType(getParamValue(this.params, name))
+    );
+  }
+
+  private getParamsByName(): Record<string, unknown> {
+    if (!Array.isArray(this.params)) {
+      return {...this.params};
+    }
+    return Object.fromEntries(
+      this.params.map((value, i) => [String(i + 1), value])
+    );
+  }
+
+  private convert(type: ParameterType, input: HTMLInputElement): unknown {
+    switch (type) {
+      case 'null':
+        return null;
+      case 'boolean':
+        return input.checked;
+      case 'number':
+        return input.value === '' ? undefined : Number(input.value);
+      case 'timestamp':
+        return input.value === '' ? undefined : input.value.replace('T', ' ');
+      default:
+        return input.value === '' && type !== 'text' ? undefined : input.value;
+    }
+  }
+
+  private updateParam(name: string, type: ParameterType, value: unknown) {
+    const params = this.getParamsByName();
+    if (value === undefined) {
+      delete params[name];
+    } else {
+      params[name] = value;
+    }
+    this.types = {...this.types, [name]: type};
+    this.params = params;
+    this.dispatchEvent(
+      new CustomEvent('params-changed', {
+        detail: {params},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleTypeChange(name: string, e: Event) {
+    const type = (e.target as HTMLSelectElement).value as ParameterType;
+    const value = getParamValue(this.params, name);
+    // Values are kept when they suit the new type
+    this.updateParam(
+      name,
+      type,
+      type === 'null'
+        ? null
+        : type === 'boolean'
+        ? Boolean(value)
+        : value === null || value === undefined || typeof value === 'boolean'
+        ? undefined
+        : type === 'number'
+        ? Number.isFinite(Number(value))
+          ? Number(value)
+          : undefined
+        : String(value)
+    );
+  }
+
+  private renderInput(name: string, type: ParameterType) {
+    const value = getParamValue(this.params, name);
+    const onInput = (e: Event) =>
+      this.updateParam(
+        name,
+        type,
+        this.convert(type, e.target as HTMLInputElement)
+      );
+
+    switch (type) {
+      case 'null':
+        return '';
+      case 'boolean':
+        return html`<input
+          type="checkbox"
+          aria-label="Value of $${name}"
+          .checked=${value === true}
+          @change=${onInput}
+        />`;
+      default:
+        return html`<input
+          type=${type === 'timestamp'
+            ? 'datetime-local'
+            : type === 'number'
+            ? 'number'
+            : type === 'date'
+            ? 'date'
+            : 'text'}
+          .step=${type === 'number' ? 'any' : ''}
+          aria-label="Value of $${name}"
+          .value=${value === null || value === undefined
+            ? ''
+            : type === 'timestamp'
+            ? String(value).replace(' ', 'T')
+            : String(value)}
+          @input=${onInput}
+        />`;
+    }
+  }
+
+  override render() {
+    return this.names.map((name) => {
+      const type = this.getType(name);
+      return html`<label part="parameter">
+        <span class="parameter-name">$${name}</span>
+        <select
+          aria-label="Type of $${name}"
+          .value=${type}
+          @change=${(e: Event) => this.handleTypeChange(name, e)}
+        >
+          ${Object.entries(PARAMETER_TYPES).map(
+            ([value, label]) =>
+              html`<option value=${value} ?selected=${value === type}>
+                ${label}
+              </option>`
+          )}
+        </select>
+        ${this.renderInput(name, type)}
+      </label>`;
+    });
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-parameter-form': DuckDbGridParameterForm;
+  }
+}
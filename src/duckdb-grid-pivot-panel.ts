@@ -0,0 +1,329 @@
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {
+  EMPTY_PIVOT,
+  getPivotAggregations,
+  PIVOT_AGGREGATIONS,
+  PivotAggregation,
+  PivotConfig,
+} from './pivot.js';
+
+type PivotZone = 'rows' | 'columns' | 'values';
+
+const PIVOT_ZONES: Record<PivotZone, string> = {
+  rows: 'Rows',
+  columns: 'Columns',
+  values: 'Values',
+};
+
+/**
+ * A web component laying out a pivot: the columns of a table are dragged
+ * into the rows, columns and values of the pivot, or added through the
+ * pickers of each zone. Values get an aggregation suiting their type.
+ *
+ * @fires pivot-changed - Indicates when the user changes the pivot. The
+ * detail holds the new `config`.
+ * @csspart fields - The columns of the table
+ * @csspart zone - A zone of the pivot
+ */
+@customElement('duckdb-grid-pivot-panel')
+export class DuckDbGridPivotPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-size: 13px;
+    }
+
+    .fields,
+    .zone {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 4px;
+      padding: 6px 8px;
+      border: 1px dashed #ccc;
+      border-radius: 4px;
+      margin-bottom: 6px;
+    }
+
+    .fields {
+      border-style: solid;
+      background-color: #f5f5f5;
+    }
+
+    .zone.drop-target {
+      border-color: #007bff;
+      background-color: #e8f0fe;
+    }
+
+    .zone-label {
+      min-width: 64px;
+      color: #666;
+      font-weight: bold;
+    }
+
+    .chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      padding: 2px 6px;
+      border: 1px solid #ccc;
+      border-radius: 12px;
+      background-color: white;
+      cursor: grab;
+    }
+
+    .chip button {
+      padding: 0 2px;
+      border: none;
+      background: none;
+      color: #999;
+      cursor: pointer;
+    }
+
+    .hint {
+      color: #999;
+      font-style: italic;
+    }
+
+    select {
+      padding: 2px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 12px;
+    }
+  `;
+
+  /** Columns of the table, with their DuckDB type. */
+  @property({attribute: false})
+  columns: {name: string; type: string}[] = [];
+
+  @property({attribute: false})
+  config: PivotConfig = EMPTY_PIVOT;
+
+  /** The zone a column is dragged over. */
+  @state()
+  private dropZone: PivotZone | null = null;
+
+  /** The column being dragged, and the zone and position it comes from. */
+  private dragged: {
+    column: string;
+    from: PivotZone | null;
+    index: number;
+  } | null = null;
+
+  private getType(column: string) {
+    return this.columns.find(({name}) => name === column)?.type ?? '';
+  }
+
+  private updateConfig(config: PivotConfig) {
+    this.config = config;
+    this.dispatchEvent(
+      new CustomEvent('pivot-changed', {
+        detail: {config},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /**
+   * Moves a column to a zone, from another zone or from the fields. A column
+   * is either in the rows or in the columns, but can be aggregated any times.
+   */
+  private moveColumn(
+    column: string,
+    from: PivotZone | null,
+    index: number,
+    to: PivotZone
+  ) {
+    const config = {
+      rows: [...this.config.rows],
+      columns: [...this.config.columns],
+      values: [...this.config.values],
+    };
+    if (from !== null) {
+      config[from].splice(index, 1);
+    }
+
+    if (to === 'values') {
+      config.values.push({
+        column,
+        aggregation: getPivotAggregations(this.getType(column))[0],
+      });
+    } else {
+      const other = to === 'rows' ? 'columns' : 'rows';
+      config[other] = config[other].filter((name) => name !== column);
+      if (!config[to].includes(column)) {
+        config[to].push(column);
+      }
+    }
+    this.updateConfig(config);
+  }
+
+  private removeColumn(zone: PivotZone, index: number) {
+    const config = {...this.config};
+    if (zone === 'values') {
+      config.values = config.values.filter((_, i) => i !== index);
+    } else {
+      config[zone] = config[zone].filter((_, i) => i !== index);
+    }
+    this.updateConfig(config);
+  }
+
+  private setAggregation(index: number, aggregation: PivotAggregation) {
+    this.updateConfig({
+      ...this.config,
+      values: this.config.values.map((value, i) =>
+        i === index ? {...value, aggregation} : value
+      ),
+    });
+  }
+
+  private handleDragStart(
+    e: DragEvent,
+    column: string,
+    from: PivotZone | null,
+    index: number
+  ) {
+    this.dragged = {column, from, index};
+    e.dataTransfer?.setData('text/plain', column);
+    if (e.dataTransfer) {
+      e.dataTransfer.effectAllowed = 'move';
+    }
+  }
+
+  private handleDrop(e: DragEvent, zone: PivotZone) {
+    e.preventDefault();
+    this.dropZone = null;
+    const dragged = this.dragged;
+    this.dragged = null;
+    if (dragged && dragged.from !== zone) {
+      this.moveColumn(dragged.column, dragged.from, dragged.index, zone);
+    }
+  }
+
+  private renderChip(
+    column: string,
+    from: PivotZone | null,
+    index: number,
+    content: unknown = column
+  ) {
+    return html`<span
+      class="chip"
+      draggable="true"
+      @dragstart=${(e: DragEvent) =>
+        this.handleDragStart(e, column, from, index)}
+      @dragend=${() => {
+        this.dragged = null;
+        this.dropZone = null;
+      }}
+    >
+      ${content}
+      ${from !== null
+        ? html`<button
+            aria-label="Remove ${column}"
+            @click=${() => this.removeColumn(from, index)}
+          >
+            ✕
+          </button>`
+        : ''}
+    </span>`;
+  }
+
+  private renderZone(zone: PivotZone) {
+    const chips =
+      zone === 'values'
+        ? this.config.values.map((value, index) =>
+            this.renderChip(
+              value.column,
+              zone,
+              index,
+              html`<select
+                  aria-label="Aggregation of ${value.column}"
+                  .value=${value.aggregation}
+                  @change=${(e: Event) =>
+                    this.setAggregation(
+                      index,
+                      (e.target as HTMLSelectElement).value as PivotAggregation
+                    )}
+                >
+                  ${getPivotAggregations(this.getType(value.column)).map(
+                    (aggregation) =>
+                      html`<option
+                        value=${aggregation}
+                        ?selected=${aggregation === value.aggregation}
+                      >
+                        ${PIVOT_AGGREGATIONS[aggregation]}
+                      </option>`
+                  )}
+                </select>
+                ${value.column}`
+            )
+          )
+        : this.config[zone].map((column, index) =>
+            this.renderChip(column, zone, index)
+          );
+    const available =
+      zone === 'values'
+        ? this.columns
+        : this.columns.filter(({name}) => !this.config[zone].includes(name));
+
+    return html`<div
+      class="zone ${this.dropZone === zone ? 'drop-target' : ''}"
+      part="zone"
+      @dragover=${(e: DragEvent) => {
+        e.preventDefault();
+        this.dropZone = zone;
+      }}
+      @dragleave=${() => (this.dropZone = null)}
+      @drop=${(e: DragEvent) => this.handleDrop(e, zone)}
+    >
+      <span class="zone-label">${PIVOT_ZONES[zone]}</span>
+      ${chips}
+      <select
+        aria-label="Add to ${PIVOT_ZONES[zone].toLowerCase()}"
+        .value=${''}
+        @change=${(e: Event) => {
+          const select = e.target as HTMLSelectElement;
+          const from = zone === 'rows' ? 'columns' : 'rows';
+          const index = this.config[from].indexOf(select.value);
+          this.moveColumn(
+            select.value,
+            zone !== 'values' && index >= 0 ? from : null,
+            index,
+            zone
+          );
+          select.value = '';
+        }}
+      >
+        <option value="">+ Add</option>
+        ${available.map(
+          ({name}) => html`<option value=${name}>${name}</option>`
+        )}
+      </select>
+      ${zone === 'values' && this.config.values.length === 0
+        ? html`<span class="hint">Row count</span>`
+        : ''}
+    </div>`;
+  }
+
+  override render() {
+    return html`
+      <div class="fields" part="fields">
+        ${this.columns.map(({name}, index) =>
+          this.renderChip(name, null, index)
+        )}
+      </div>
+      ${(['rows', 'columns', 'values'] as const).map((zone) =>
+        this.renderZone(zone)
+      )}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-pivot-panel': DuckDbGridPivotPanel;
+  }
+}
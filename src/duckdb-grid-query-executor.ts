@@ -1,16 +1,121 @@
 import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
 import {Table} from 'apache-arrow';
 import {css, html, LitElement} from 'lit';
-import {customElement, property, state} from 'lit/decorators.js';
+import {customElement, property, query, state} from 'lit/decorators.js';
+import {CellRenderers} from './cellRenderers.js';
 import './duckdb-grid-table-data.js';
+import './duckdb-grid-export-menu.js';
+import type {
+  DuckDbGridSqlEditor,
+  EditorError,
+} from './duckdb-grid-sql-editor.js';
+import './duckdb-grid-sql-editor.js';
+import type {DuckDbGridQueryHistory} from './duckdb-grid-query-history.js';
+import './duckdb-grid-query-history.js';
+import {
+  createQueryId,
+  HistoryEntry,
+  LocalStorageQueryStorage,
+  QueryStorage,
+} from './queryHistory.js';
+import {FlattenedColumn, flattenColumns} from './sql.js';
+import {getErrorOffset} from './sqlSyntax.js';
+import {getStatementAt, splitStatements, SqlStatement} from './statements.js';
+import {streamQuery} from './stream.js';
+import {
+  bindParameters,
+  countPositionalParameters,
+  findParameters,
+  QueryParams,
+} from './parameters.js';
+import './duckdb-grid-parameter-form.js';
+import {explainQuery, QueryPlan} from './queryPlan.js';
+import './duckdb-grid-query-plan.js';
+import {ChartOptions} from './chart.js';
+import './duckdb-grid-chart.js';
+
+/** First keywords of statements whose results are always displayed as rows. */
+const ROW_STATEMENT_PATTERN = /^\s*(\(|(SELECT|WITH|FROM|VALUES|TABLE)\b)/i;
+
+interface StatementResult {
+  statement: string;
+  /** The statement as run, with its placeholders numbered */
+  sql: string;
+  /** Values bound to the placeholders of `sql` */
+  params: unknown[];
+  status: 'pending' | 'running' | 'done' | 'error' | 'cancelled' | 'skipped';
+  /** Rows returned by the statement, or null for DDL and DML statements */
+  table: Table | null;
+  /** Rows inserted, updated or deleted by DML statements */
+  affectedRows: number | null;
+  executionTime: number | null;
+  /** Why rows stopped being pulled before the end of the result */
+  stoppedBy: 'limit' | 'user' | 'timeout' | null;
+  error: string | null;
+}
+
+/**
+ * Whether a result only reports the status of a DDL or DML statement, which
+ * DuckDB does with a single `Count` or `Success` column.
+ */
+function isStatusResult(statement: string, table: Table) {
+  const fields = table.schema.fields;
+  return (
+    fields.length === 1 &&
+    ['Count', 'Success'].includes(fields[0].name) &&
+    !ROW_STATEMENT_PATTERN.test(
+      statement.replace(/^(\s*(--[^\n]*\n|\/\*[\s\S]*?\*\/))*/, '')
+    )
+  );
+}
 
 /**
  * A web component for executing SQL queries and displaying results.
  *
+ * Queries are sent with `send()` so that they can be cancelled, either with
+ * the Cancel button or once `timeoutMs` has elapsed. Results of a query that
+ * was cancelled or superseded by a newer one are discarded. Results are
+ * displayed as their record batches arrive, up to `displayLimit` rows.
+ *
+ * Scripts are split into statements, which are run in order until one of
+ * them fails. Each statement returning rows gets its own result tab, while
+ * the status and affected row count of DDL and DML statements are listed.
+ * The whole script, the selected text or the statement under the cursor can
+ * be run. The position reported by DuckDB for a failing statement is
+ * underlined in the editor.
+ *
+ * Statements with `$name`, `$1` or `?` placeholders are run as prepared
+ * statements, with the values entered in the generated parameter form or set
+ * through `params`.
+ *
+ * The statement under the cursor can be explained, showing its query plan,
+ * or run with EXPLAIN ANALYZE to show the timing and cardinality of each
+ * operator.
+ *
+ * Every run is recorded in the query history of `storage`, which is kept in
+ * `localStorage` by default. The history panel lists it along with the saved
+ * queries.
+ *
+ * @fires query-executed - Indicates when a run completes, fails or is
+ * cancelled. The detail holds the recorded history `entry`.
  * @slot - This element has a slot
- * @csspart textarea - The query input textarea
+ * @csspart textarea - The SQL editor
  * @csspart button - The execute button
+ * @csspart run-selection-button - The button running the selected text
+ * @csspart run-statement-button - The button running the statement under the cursor
+ * @csspart cancel-button - The button cancelling the running query
  * @csspart results - The results container
+ * @csspart export-menu - The export menu of the results
+ * @csspart statements - The status of every statement of the script
+ * @csspart tabs - The result tabs
+ * @csspart history-button - The button toggling the history panel
+ * @csspart history - The history panel
+ * @csspart parameters - The form of the query parameters
+ * @csspart explain-button - The button explaining the statement under the cursor
+ * @csspart explain-analyze-button - The button profiling the statement under the cursor
+ * @csspart query-plan - The query plan
+ * @csspart view-tabs - The tabs switching a result between table and chart
+ * @csspart chart - The chart of the result
  */
 @customElement('duckdb-grid-query-executor')
 export class DuckDbGridQueryExecutor extends LitElement {
@@ -41,20 +146,25 @@ export class DuckDbGridQueryExecutor extends LitElement {
       color: #333;
     }
 
-    textarea {
+    duckdb-grid-sql-editor {
       min-height: 100px;
-      padding: 12px;
-      border: 1px solid #ccc;
-      border-radius: 4px;
-      font-family: 'Courier New', monospace;
-      font-size: 14px;
-      resize: vertical;
-      background-color: white;
     }
 
     .button-row {
       display: flex;
       justify-content: flex-end;
+      gap: 8px;
+    }
+
+    .history-button {
+      margin-right: auto;
+    }
+
+    duckdb-grid-query-history {
+      padding: 12px;
+      border: 1px solid #ddd;
+      border-radius: 6px;
+      background-color: white;
     }
 
     button {
@@ -78,6 +188,30 @@ export class DuckDbGridQueryExecutor extends LitElement {
       cursor: not-allowed;
     }
 
+    .secondary-button {
+      background-color: white;
+      color: #007bff;
+      border: 1px solid #007bff;
+    }
+
+    .secondary-button:hover {
+      background-color: #f0f7ff;
+    }
+
+    .secondary-button:disabled {
+      background-color: white;
+      color: #6c757d;
+      border-color: #6c757d;
+    }
+
+    .cancel-button {
+      background-color: #d32f2f;
+    }
+
+    .cancel-button:hover {
+      background-color: #9a0007;
+    }
+
     .results-container {
       background: white;
       border-radius: 6px;
@@ -107,6 +241,12 @@ export class DuckDbGridQueryExecutor extends LitElement {
       font-style: italic;
     }
 
+    .cancelled {
+      color: #666;
+      padding: 20px;
+      text-align: center;
+    }
+
     .no-query {
       color: #666;
       padding: 20px;
@@ -114,6 +254,86 @@ export class DuckDbGridQueryExecutor extends LitElement {
       font-style: italic;
     }
 
+    .results-toolbar {
+      display: flex;
+      align-items: center;
+      justify-content: flex-end;
+      gap: 8px;
+    }
+
+    .results-info {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-right: auto;
+    }
+
+    .stopped-notice {
+      margin-right: auto;
+      padding: 8px;
+      color: #8a6d3b;
+      font-size: 12px;
+    }
+
+    .statements {
+      margin: 0 0 12px;
+      padding: 0;
+      list-style: none;
+      font-size: 13px;
+    }
+
+    .statement {
+      display: flex;
+      gap: 8px;
+      padding: 4px 0;
+      border-bottom: 1px solid #eee;
+    }
+
+    .statement-sql {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      font-family: 'Courier New', monospace;
+    }
+
+    .statement-status {
+      color: #666;
+      white-space: nowrap;
+    }
+
+    .statement.error .statement-status {
+      color: #d32f2f;
+      white-space: normal;
+    }
+
+    .tabs {
+      display: flex;
+      gap: 4px;
+      border-bottom: 1px solid #ddd;
+    }
+
+    .tab {
+      padding: 6px 12px;
+      border: 1px solid transparent;
+      border-bottom: none;
+      border-radius: 4px 4px 0 0;
+      background: none;
+      color: #666;
+      font-size: 13px;
+    }
+
+    .tab:hover {
+      background-color: #f5f5f5;
+    }
+
+    .tab.active {
+      border-color: #ddd;
+      background-color: white;
+      color: #333;
+    }
+
     .execution-time {
       padding: 8px;
       color: #666;
@@ -130,17 +350,130 @@ export class DuckDbGridQueryExecutor extends LitElement {
   @property({type: Object})
   connection!: AsyncDuckDBConnection;
 
+  /** Queries running for longer than this are cancelled. */
+  @property({type: Number})
+  timeoutMs: number | null = null;
+
+  /**
+   * Maximum number of rows displayed per statement. Results are no longer
+   * pulled from DuckDB once it is reached, so that memory stays bounded.
+   */
+  @property({type: Number})
+  displayLimit = 10000;
+
+  /**
+   * Values of the query placeholders: by name for `$name`, by position for
+   * `?` and `$1`. The `?` placeholders are numbered across the script.
+   */
+  @property({attribute: false})
+  params: QueryParams = {};
+
+  /** Where the query history and the saved queries are kept. */
+  @property({attribute: false})
+  storage: QueryStorage = new LocalStorageQueryStorage();
+
+  /** Locale of the numbers of the results, the browser's by default. */
+  @property({type: String})
+  locale: string | null = null;
+
+  /** Time zone of the TIMESTAMP WITH TIME ZONE values, UTC by default. */
+  @property({type: String})
+  timeZone: string | null = null;
+
+  /** Custom renderers of the cells of the results, see `CellRenderers`. */
+  @property({attribute: false})
+  cellRenderers: CellRenderers = {};
+
   @state()
   private query = '';
 
   @state()
   private queryState:
     | {status: 'idle'}
-    | {status: 'loading'}
-    | {status: 'loaded'; table: Table; executionTime: number}
+    | {status: 'running'; results: StatementResult[]}
+    | {status: 'loaded'; results: StatementResult[]; executionTime: number}
+    | {
+        status: 'cancelled';
+        reason: 'user' | 'timeout';
+        results: StatementResult[];
+      }
+    | {status: 'explained'; plan: QueryPlan}
     | {status: 'error'; error: string} = {status: 'idle'};
 
-  private async executeQuery() {
+  /** Index of the result displayed, or null to follow the running script. */
+  @state()
+  private selectedResult: number | null = null;
+
+  /** Position of the error of the last run in the editor. */
+  @state()
+  private editorError: EditorError | null = null;
+
+  /** Whether results are displayed as a table or as a chart. */
+  @state()
+  private resultView: 'table' | 'chart' = 'table';
+
+  /** What the chart plots, kept while it suits the results displayed. */
+  @state()
+  private chartOptions: ChartOptions | null = null;
+
+  @state()
+  private showHistory = false;
+
+  @query('duckdb-grid-sql-editor')
+  private editor?: DuckDbGridSqlEditor;
+
+  @query('duckdb-grid-query-history')
+  private history?: DuckDbGridQueryHistory;
+
+  /** The script running, recorded in the history if it is cancelled. */
+  private currentRun: {query: string; startTime: number} | null = null;
+
+  /** Incremented on every run so that stale results can be discarded. */
+  private queryId = 0;
+
+  private timeout?: ReturnType<typeof setTimeout>;
+
+  private get isRunning() {
+    return this.queryState.status === 'running';
+  }
+
+  /** Runs the whole script. */
+  private executeQuery() {
+    this.runStatements(splitStatements(this.query));
+  }
+
+  /** Runs the selected text, or the whole script when nothing is selected. */
+  private executeSelection() {
+    const selectionStart = this.editor?.selectionStart ?? 0;
+    const selection = this.query.slice(
+      selectionStart,
+      this.editor?.selectionEnd ?? 0
+    );
+    if (!selection.trim()) {
+      this.executeQuery();
+      return;
+    }
+    this.runStatements(splitStatements(selection), selectionStart);
+  }
+
+  /** Runs the statement under the cursor. */
+  private executeStatementAtCursor() {
+    const statement = getStatementAt(
+      splitStatements(this.query),
+      this.editor?.selectionStart ?? 0
+    );
+    this.runStatements(statement ? [statement] : []);
+  }
+
+  /**
+   * Runs statements in order. `offset` is the position in the editor of the
+   * text the statements were split from, or null when they are not in the
+   * editor.
+   */
+  private async runStatements(
+    statements: SqlStatement[],
+    offset: number | null = 0
+  ) {
     if (!this.connection) {
       this.queryState = {
         status: 'error',
@@ -149,70 +482,591 @@ export class DuckDbGridQueryExecutor extends LitElement {
       return;
     }
 
-    if (!this.query.trim()) {
+    if (statements.length === 0) {
       this.queryState = {status: 'error', error: 'Please enter a SQL query'};
       return;
     }
 
-    this.queryState = {status: 'loading'};
+    // A script still running is superseded by the new one, and recorded as
+    // cancelled before its cancellation can be reported as its result
+    if (this.isRunning) {
+      await this.cancelQuery();
+    }
+
+    const queryId = ++this.queryId;
     const startTime = Date.now();
+    let results: StatementResult[] = statements.map(({text}) => ({
+      statement: text,
+      sql: text,
+      params: [],
+      status: 'pending',
+      table: null,
+      affectedRows: null,
+      executionTime: null,
+      stoppedBy: null,
+      error: null,
+    }));
+    this.selectedResult = null;
+    this.editorError = null;
+    this.queryState = {status: 'running', results};
+    this.currentRun = {
+      query: statements.map(({text}) => text).join(';\n'),
+      startTime,
+    };
+
+    const updateResult = (index: number, update: Partial<StatementResult>) => {
+      results = results.map((result, i) =>
+        i === index ? {...result, ...update} : result
+      );
+      if (queryId === this.queryId) {
+        this.queryState = {status: 'running', results};
+      }
+    };
+
+    this.startTimeout();
 
     try {
-      const result = await this.connection.query(this.query.trim());
-      const executionTime = Date.now() - startTime;
-      this.queryState = {status: 'loaded', table: result, executionTime};
-    } catch (err) {
+      for (const [index, {text: statement, start}] of statements.entries()) {
+        updateResult(index, {status: 'running'});
+        const statementStartTime = Date.now();
+
+        try {
+          const bound = bindParameters(
+            statement,
+            this.params,
+            offset === null
+              ? 0
+              : countPositionalParameters(this.query.slice(0, offset + start))
+          );
+          updateResult(index, bound);
+          const {table, limitReached} = await streamQuery(
+            this.connection,
+            bound.sql,
+            bound.params,
+            {
+              limit: this.displayLimit,
+              isStale: () => queryId !== this.queryId,
+              onProgress: (table) => {
+                if (!isStatusResult(statement, table)) {
+                  updateResult(index, {table});
+                }
+              },
+            }
+          );
+          if (queryId !== this.queryId) {
+            return;
+          }
+
+          const executionTime = Date.now() - statementStartTime;
+          if (isStatusResult(statement, table)) {
+            const isCount =
+              table.schema.fields[0].name === 'Count' && table.numRows === 1;
+            updateResult(index, {
+              status: 'done',
+              table: null,
+              affectedRows: isCount
+                ? Number(table.getChildAt(0)?.get(0))
+                : null,
+              executionTime,
+            });
+          } else {
+            updateResult(index, {
+              status: 'done',
+              table,
+              executionTime,
+              stoppedBy: limitReached ? 'limit' : null,
+            });
+          }
+        } catch (err) {
+          if (queryId !== this.queryId) {
+            return;
+          }
+          const error = err instanceof Error ? err.message : 'Unknown error';
+          updateResult(index, {status: 'error', error});
+          const errorOffset = getErrorOffset(error, statement);
+          if (offset !== null && errorOffset !== null) {
+            this.editorError = {
+              offset: offset + start + errorOffset,
+              message: error,
+            };
+          }
+          // The rest of the script is not run after a failure
+          results = results.map((result) =>
+            result.status === 'pending'
+              ? {...result, status: 'skipped'}
+              : result
+          );
+          break;
+        }
+      }
+
+      if (queryId !== this.queryId) {
+        return;
+      }
+      this.currentRun = null;
+      this.queryState = {
+        status: 'loaded',
+        results,
+        executionTime: Date.now() - startTime,
+      };
+      this.recordRun(
+        statements.map(({text}) => text).join(';\n'),
+        results,
+        startTime
+      );
+      // DDL statements may have changed the tables to complete
+      if (results.some(({status, table}) => status === 'done' && !table)) {
+        this.editor?.refreshCatalog();
+      }
+    } finally {
+      if (queryId === this.queryId) {
+        clearTimeout(this.timeout);
+      }
+    }
+  }
+
+  private startTimeout() {
+    clearTimeout(this.timeout);
+    if (this.timeoutMs) {
+      this.timeout = setTimeout(
+        () => this.cancelQuery('timeout'),
+        this.timeoutMs
+      );
+    }
+  }
+
+  /**
+   * Shows the query plan of the statement under the cursor. With `analyze`,
+   * the statement is run to profile its operators.
+   */
+  private async explainStatement(analyze: boolean) {
+    const statement = getStatementAt(
+      splitStatements(this.query),
+      this.editor?.selectionStart ?? 0
+    );
+    if (!this.connection || !statement) {
       this.queryState = {
         status: 'error',
-        error: `Query execution failed: ${
-          err instanceof Error ? err.message : 'Unknown error'
-        }`,
+        error: this.connection
+          ? 'Please enter a SQL query'
+          : 'No database connection available',
       };
+      return;
+    }
+
+    if (this.isRunning) {
+      await this.cancelQuery();
+    }
+
+    const queryId = ++this.queryId;
+    this.editorError = null;
+    this.queryState = {status: 'running', results: []};
+    this.startTimeout();
+
+    try {
+      const {sql, params} = bindParameters(
+        statement.text,
+        this.params,
+        countPositionalParameters(this.query.slice(0, statement.start))
+      );
+      const plan = await explainQuery(this.connection, sql, params, {
+        analyze,
+        isStale: () => queryId !== this.queryId,
+      });
+      if (queryId === this.queryId) {
+        this.queryState = {status: 'explained', plan};
+      }
+    } catch (err) {
+      if (queryId === this.queryId) {
+        this.queryState = {
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Unknown error',
+        };
+      }
+    } finally {
+      if (queryId === this.queryId) {
+        clearTimeout(this.timeout);
+      }
     }
   }
 
-  private handleQueryInput(e: Event) {
-    const target = e.target as HTMLTextAreaElement;
-    this.query = target.value;
+  /**
+   * Cancels the running script. Rows already received while streaming are
+   * kept, the statements that did not run are skipped.
+   */
+  private async cancelQuery(reason: 'user' | 'timeout' = 'user') {
+    if (this.queryState.status !== 'running') {
+      return;
+    }
+
+    clearTimeout(this.timeout);
+    this.queryId++;
+    const results: StatementResult[] = this.queryState.results.map((result) =>
+      result.status === 'running'
+        ? {...result, status: 'cancelled', stoppedBy: reason}
+        : result.status === 'pending'
+        ? {...result, status: 'skipped'}
+        : result
+    );
+    this.queryState = {status: 'cancelled', reason, results};
+    if (this.currentRun) {
+      this.recordRun(this.currentRun.query, results, this.currentRun.startTime);
+      this.currentRun = null;
+    }
+    await this.cancelSent();
+  }
+
+  /**
+   * Records a run in the history. Its row count adds up the rows returned
+   * and affected by its statements.
+   */
+  private async recordRun(
+    query: string,
+    results: StatementResult[],
+    startTime: number
+  ) {
+    const failed = results.find(({status}) => status === 'error');
+    const rowCounts = results
+      .map(({table, affectedRows}) => table?.numRows ?? affectedRows)
+      .filter((count): count is number => count !== null);
+    const entry: HistoryEntry = {
+      id: createQueryId(),
+      query,
+      executedAt: startTime,
+      executionTime: Date.now() - startTime,
+      rowCount:
+        rowCounts.length > 0
+          ? rowCounts.reduce((total, count) => total + count, 0)
+          : null,
+      status: failed
+        ? 'error'
+        : results.some(({status}) => status === 'cancelled')
+        ? 'cancelled'
+        : 'success',
+      error: failed?.error ?? null,
+    };
+
+    try {
+      await this.storage.addHistoryEntry(entry);
+    } catch {
+      // The history is best effort: a full storage must not fail the run
+    }
+    this.dispatchEvent(
+      new CustomEvent('query-executed', {
+        detail: {entry},
+        bubbles: true,
+        composed: true,
+      })
+    );
+    await this.history?.refresh();
+  }
+
+  private handleQuerySelected(e: CustomEvent<{query: string; run: boolean}>) {
+    this.query = e.detail.query;
+    this.editorError = null;
+    if (e.detail.run) {
+      this.executeQuery();
+    }
+  }
+
+  private async cancelSent() {
+    try {
+      await this.connection.cancelSent();
+    } catch {
+      // The query may have completed in the meantime
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    clearTimeout(this.timeout);
+  }
+
+  /**
+   * Rewrites the statement of a result so that a nested column is flattened,
+   * and runs it. The editor is updated when it holds that single statement.
+   */
+  private flattenColumn(statement: string, column: FlattenedColumn) {
+    const query = statement.trim().replace(/;+\s*$/, '');
+    if (!query) {
+      return;
+    }
+
+    const flattened = flattenColumns(`(${query})`, [column]);
+    const isInEditor = splitStatements(this.query).length <= 1;
+    if (isInEditor) {
+      this.query = flattened;
+    }
+    this.runStatements(
+      [{text: flattened, start: 0, end: flattened.length}],
+      isInEditor ? 0 : null
+    );
+  }
+
+  private handleQueryInput(e: CustomEvent<{value: string}>) {
+    this.query = e.detail.value;
+    this.editorError = null;
   }
 
   private handleKeyDown(e: KeyboardEvent) {
     if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
       e.preventDefault();
-      this.executeQuery();
+      if (e.shiftKey) {
+        this.executeStatementAtCursor();
+      } else {
+        this.executeSelection();
+      }
+    }
+  }
+
+  /** Results shown in a tab, along with their index in the script. */
+  private getTabs(results: StatementResult[]) {
+    return results
+      .map((result, index) => ({result, index}))
+      .filter(({result}) => result.table !== null);
+  }
+
+  private getStatementStatus(result: StatementResult) {
+    switch (result.status) {
+      case 'pending':
+        return 'Pending';
+      case 'running':
+        return 'Running...';
+      case 'skipped':
+        return 'Skipped';
+      case 'cancelled':
+        return 'Cancelled';
+      case 'error':
+        return result.error;
+      case 'done': {
+        const time = `${result.executionTime}ms`;
+        if (result.table) {
+          const rowCount = result.table.numRows;
+          return `${rowCount.toLocaleString()} row${
+            rowCount === 1 ? '' : 's'
+          } returned, ${time}`;
+        }
+        return result.affectedRows !== null
+          ? `${result.affectedRows.toLocaleString()} row${
+              result.affectedRows === 1 ? '' : 's'
+            } affected, ${time}`
+          : `OK, ${time}`;
+      }
+    }
+  }
+
+  private renderStoppedNotice(stoppedBy: 'limit' | 'user' | 'timeout' | null) {
+    if (!stoppedBy) {
+      return '';
     }
+
+    return html`<div class="stopped-notice">
+      ${stoppedBy === 'limit'
+        ? `Only the first ${this.displayLimit.toLocaleString()} rows are displayed`
+        : stoppedBy === 'timeout'
+        ? `Query cancelled after ${this.timeoutMs}ms, partial results`
+        : 'Query cancelled, partial results'}
+    </div>`;
+  }
+
+  private renderResults(
+    results: StatementResult[],
+    executionTime: number | null
+  ) {
+    const tabs = this.getTabs(results);
+    // Follow the last statement returning rows unless a tab was picked
+    const selected =
+      tabs.find(({index}) => index === this.selectedResult) ??
+      tabs[tabs.length - 1];
+    const showStatements = results.length > 1 || tabs.length === 0;
+
+    return html`
+      ${showStatements
+        ? html`<ol class="statements" part="statements">
+            ${results.map(
+              (result) => html`<li class="statement ${result.status}">
+                <span class="statement-sql" title=${result.statement}
+                  >${result.statement}</span
+                >
+                <span class="statement-status"
+                  >${this.getStatementStatus(result)}</span
+                >
+              </li>`
+            )}
+          </ol>`
+        : ''}
+      ${tabs.length > 1
+        ? html`<div class="tabs" part="tabs" role="tablist">
+            ${tabs.map(
+              ({index}, i) => html`<button
+                class="tab ${index === selected?.index ? 'active' : ''}"
+                role="tab"
+                aria-selected=${index === selected?.index ? 'true' : 'false'}
+                @click=${() => (this.selectedResult = index)}
+              >
+                Result ${i + 1}
+              </button>`
+            )}
+          </div>`
+        : ''}
+      ${selected
+        ? html`
+            <div class="results-toolbar">
+              <div class="results-info">
+                <div class="tabs" part="view-tabs" role="tablist">
+                  ${(['table', 'chart'] as const).map(
+                    (view) => html`<button
+                      class="tab ${view === this.resultView ? 'active' : ''}"
+                      role="tab"
+                      aria-selected=${view === this.resultView
+                        ? 'true'
+                        : 'false'}
+                      @click=${() => (this.resultView = view)}
+                    >
+                      ${view === 'table' ? 'Table' : 'Chart'}
+                    </button>`
+                  )}
+                </div>
+                ${this.renderStoppedNotice(selected.result.stoppedBy)}
+              </div>
+              ${executionTime !== null
+                ? html`<div class="execution-time">
+                    Executed in ${executionTime}ms
+                  </div>`
+                : ''}
+              <duckdb-grid-export-menu
+                part="export-menu"
+                .connection=${this.connection}
+                .table=${selected.result.table}
+                .query=${selected.result.sql}
+                .params=${selected.result.params}
+                fileName="query-result"
+              ></duckdb-grid-export-menu>
+            </div>
+            ${this.resultView === 'chart'
+              ? html`<duckdb-grid-chart
+                  part="chart"
+                  .table=${selected.result.table}
+                  .options=${this.chartOptions}
+                  @chart-options-changed=${(
+                    e: CustomEvent<{options: ChartOptions}>
+                  ) => (this.chartOptions = e.detail.options)}
+                ></duckdb-grid-chart>`
+              : html`<duckdb-grid-table-data
+                  .table=${selected.result.table}
+                  ?streaming=${selected.result.status === 'running'}
+                  .locale=${this.locale}
+                  .timeZone=${this.timeZone}
+                  .cellRenderers=${this.cellRenderers}
+                  flattenable
+                  @flatten-column=${(e: CustomEvent<FlattenedColumn>) =>
+                    this.flattenColumn(selected.result.statement, e.detail)}
+                ></duckdb-grid-table-data>`}
+          `
+        : ''}
+    `;
   }
 
   override render() {
+    const parameterNames = findParameters(this.query);
+
     return html`
       <div class="executor-container">
         <!-- Row 1: Query Input -->
         <div class="query-row">
-          <label class="query-label" for="query-textarea">SQL Query</label>
-          <textarea
-            id="query-textarea"
+          <label class="query-label" @click=${() => this.editor?.focus()}
+            >SQL Query</label
+          >
+          <duckdb-grid-sql-editor
             part="textarea"
             .value=${this.query}
-            @input=${this.handleQueryInput}
+            .connection=${this.connection}
+            .error=${this.editorError}
+            @value-changed=${this.handleQueryInput}
             @keydown=${this.handleKeyDown}
-            placeholder="Enter your SQL query here... (Ctrl+Enter to execute)"
-          ></textarea>
+            placeholder="Enter your SQL query here... (Ctrl+Enter to execute, Ctrl+Shift+Enter for the statement under the cursor)"
+          ></duckdb-grid-sql-editor>
+          ${parameterNames.length > 0
+            ? html`<duckdb-grid-parameter-form
+                part="parameters"
+                .names=${parameterNames}
+                .params=${this.params}
+                @params-changed=${(
+                  e: CustomEvent<{params: Record<string, unknown>}>
+                ) => (this.params = e.detail.params)}
+              ></duckdb-grid-parameter-form>`
+            : ''}
         </div>
 
-        <!-- Row 2: Execute Button -->
+        <!-- Row 2: Execute Buttons -->
         <div class="button-row">
+          <button
+            class="secondary-button history-button"
+            part="history-button"
+            aria-expanded=${this.showHistory ? 'true' : 'false'}
+            @click=${() => (this.showHistory = !this.showHistory)}
+          >
+            History
+          </button>
+          <button
+            class="secondary-button"
+            part="explain-button"
+            @click=${() => this.explainStatement(false)}
+            ?disabled=${this.isRunning || !this.connection}
+          >
+            Explain
+          </button>
+          <button
+            class="secondary-button"
+            part="explain-analyze-button"
+            @click=${() => this.explainStatement(true)}
+            ?disabled=${this.isRunning || !this.connection}
+          >
+            Explain Analyze
+          </button>
+          <button
+            class="secondary-button"
+            part="run-statement-button"
+            @click=${this.executeStatementAtCursor}
+            ?disabled=${this.isRunning || !this.connection}
+          >
+            Run Statement
+          </button>
+          <button
+            class="secondary-button"
+            part="run-selection-button"
+            @click=${this.executeSelection}
+            ?disabled=${this.isRunning || !this.connection}
+          >
+            Run Selection
+          </button>
           <button
             part="button"
             @click=${this.executeQuery}
-            ?disabled=${this.queryState.status === 'loading' ||
-            !this.connection}
+            ?disabled=${this.isRunning || !this.connection}
           >
-            ${this.queryState.status === 'loading'
-              ? 'Executing...'
-              : 'Run Query'}
+            ${this.isRunning ? 'Executing...' : 'Run Query'}
           </button>
+          ${this.isRunning
+            ? html`<button
+                class="cancel-button"
+                part="cancel-button"
+                @click=${() => this.cancelQuery()}
+              >
+                Cancel
+              </button>`
+            : ''}
         </div>
 
+        ${this.showHistory
+          ? html`<duckdb-grid-query-history
+              part="history"
+              .storage=${this.storage}
+              .currentQuery=${this.query}
+              @query-selected=${this.handleQuerySelected}
+            ></duckdb-grid-query-history>`
+          : ''}
+
         <!-- Row 3: Results -->
         <div class="results-container" part="results">
           ${!this.connection
@@ -220,21 +1074,34 @@ export class DuckDbGridQueryExecutor extends LitElement {
                 No database connection provided. Please provide a DuckDB
                 connection to execute queries.
               </div>`
-            : this.queryState.status === 'loading'
-            ? html`<div class="loading">Executing query...</div>`
             : this.queryState.status === 'error'
             ? html`<div class="error">${this.queryState.error}</div>`
-            : this.queryState.status === 'loaded'
+            : this.queryState.status === 'cancelled'
             ? html`
-                ${this.queryState.executionTime !== null
-                  ? html`<div class="execution-time">
-                      Executed in ${this.queryState.executionTime}ms
-                    </div>`
+                <div class="cancelled">
+                  ${this.queryState.reason === 'timeout'
+                    ? `Query cancelled after ${this.timeoutMs}ms`
+                    : 'Query cancelled'}
+                </div>
+                ${this.queryState.results.length > 0
+                  ? this.renderResults(this.queryState.results, null)
                   : ''}
-                <duckdb-grid-table-data
-                  .table=${this.queryState.table}
-                ></duckdb-grid-table-data>
               `
+            : this.queryState.status === 'running'
+            ? this.queryState.results.some((result) => result.table) ||
+              this.queryState.results.length > 1
+              ? this.renderResults(this.queryState.results, null)
+              : html`<div class="loading">Executing query...</div>`
+            : this.queryState.status === 'loaded'
+            ? this.renderResults(
+                this.queryState.results,
+                this.queryState.executionTime
+              )
+            : this.queryState.status === 'explained'
+            ? html`<duckdb-grid-query-plan
+                part="query-plan"
+                .plan=${this.queryState.plan}
+              ></duckdb-grid-query-plan>`
             : html`<div class="no-query">
                 Enter a query above and click "Run Query" to see results
               </div>`}
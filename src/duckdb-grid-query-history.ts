@@ -0,0 +1,499 @@
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {
+  createQueryId,
+  HistoryEntry,
+  LocalStorageQueryStorage,
+  matchesQuerySearch,
+  parseTags,
+  QueryStorage,
+  SavedQuery,
+} from './queryHistory.js';
+
+type HistoryView = 'history' | 'saved';
+
+/**
+ * A web component listing the query history and the saved queries of a
+ * `QueryStorage`, which can be searched, loaded into the editor or run again.
+ * The current query, or a query of the history, can be saved under a name
+ * with tags. Saving under an existing name replaces the saved query.
+ *
+ * @fires query-selected - Indicates when a query is picked. The detail holds
+ * the `query` and whether to `run` it.
+ * @fires query-saved - Indicates when a query is saved. The detail holds the
+ * `savedQuery`.
+ * @fires saved-query-deleted - Indicates when a saved query is deleted. The
+ * detail holds the `savedQuery`.
+ * @fires history-cleared - Indicates when the history is cleared
+ * @csspart search - The search input
+ * @csspart list - The list of queries
+ * @csspart save-form - The form saving a query
+ */
+@customElement('duckdb-grid-query-history')
+export class DuckDbGridQueryHistory extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-size: 13px;
+    }
+
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+
+    .view-toggle {
+      display: flex;
+    }
+
+    .view-toggle button {
+      border-radius: 0;
+    }
+
+    .view-toggle button:first-child {
+      border-radius: 4px 0 0 4px;
+    }
+
+    .view-toggle button:last-child {
+      border-radius: 0 4px 4px 0;
+      border-left: none;
+    }
+
+    .view-toggle button.active {
+      background-color: #e8f0fe;
+      color: #333;
+    }
+
+    button {
+      padding: 4px 10px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background-color: white;
+      color: #333;
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    button:hover {
+      background-color: #f5f5f5;
+    }
+
+    button:disabled {
+      color: #999;
+      cursor: not-allowed;
+    }
+
+    input[type='search'],
+    input[type='text'] {
+      padding: 4px 8px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+
+    input[type='search'] {
+      flex: 1;
+    }
+
+    .list {
+      max-height: 300px;
+      margin: 0;
+      padding: 0;
+      overflow-y: auto;
+      list-style: none;
+      border: 1px solid #eee;
+      border-radius: 4px;
+      background-color: white;
+    }
+
+    .item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 8px;
+      border-bottom: 1px solid #eee;
+    }
+
+    .item:last-child {
+      border-bottom: none;
+    }
+
+    .item-main {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .item-query {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      font-family: 'Courier New', monospace;
+    }
+
+    .item-meta {
+      color: #666;
+      font-size: 12px;
+    }
+
+    .item.error .item-status {
+      color: #d32f2f;
+    }
+
+    .item-name {
+      font-weight: bold;
+    }
+
+    .tag {
+      display: inline-block;
+      margin-left: 4px;
+      padding: 0 6px;
+      border-radius: 8px;
+      background-color: #e8f0fe;
+      color: #1a4fa0;
+      font-size: 11px;
+    }
+
+    .item-actions {
+      display: flex;
+      gap: 4px;
+    }
+
+    .save-form {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+
+    .empty {
+      padding: 12px;
+      color: #666;
+      font-style: italic;
+      text-align: center;
+    }
+
+    .error-message {
+      color: #d32f2f;
+      margin-bottom: 8px;
+    }
+  `;
+
+  /** Where the history and the saved queries are kept. */
+  @property({attribute: false})
+  storage: QueryStorage = new LocalStorageQueryStorage();
+
+  /** The query of the editor, offered for saving. */
+  @property({type: String})
+  currentQuery = '';
+
+  @state()
+  private view: HistoryView = 'history';
+
+  @state()
+  private history: HistoryEntry[] = [];
+
+  @state()
+  private savedQueries: SavedQuery[] = [];
+
+  @state()
+  private search = '';
+
+  /** The query being saved, or null when the save form is closed. */
+  @state()
+  private draft: {query: string; name: string; tags: string} | null = null;
+
+  @state()
+  private error = '';
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    super.willUpdate(changedProperties);
+    if (changedProperties.has('storage')) {
+      this.refresh();
+    }
+  }
+
+  /** Reloads the history and the saved queries from the storage. */
+  async refresh() {
+    const storage = this.storage;
+    try {
+      const [history, savedQueries] = await Promise.all([
+        storage.loadHistory(),
+        storage.loadSavedQueries(),
+      ]);
+      if (storage === this.storage) {
+        this.history = history;
+        this.savedQueries = savedQueries;
+        this.error = '';
+      }
+    } catch (err) {
+      this.error = `Failed to load the query history: ${
+        err instanceof Error ? err.message : 'Unknown error'
+      }`;
+    }
+  }
+
+  private dispatch(type: string, detail?: Record<string, unknown>) {
+    this.dispatchEvent(
+      new CustomEvent(type, {detail, bubbles: true, composed: true})
+    );
+  }
+
+  private selectQuery(query: string, run: boolean) {
+    this.dispatch('query-selected', {query, run});
+  }
+
+  private openSaveForm(query: string, savedQuery?: SavedQuery) {
+    this.view = 'saved';
+    this.draft = {
+      query,
+      name: savedQuery?.name ?? '',
+      tags: savedQuery?.tags.join(', ') ?? '',
+    };
+  }
+
+  private async saveDraft(e: Event) {
+    e.preventDefault();
+    const draft = this.draft;
+    const name = draft?.name.trim();
+    if (!draft || !name) {
+      return;
+    }
+
+    const existing = this.savedQueries.find((query) => query.name === name);
+    const savedQuery: SavedQuery = {
+      id: existing?.id ?? createQueryId(),
+      name,
+      query: draft.query,
+      tags: parseTags(draft.tags),
+      savedAt: Date.now(),
+    };
+    try {
+      await this.storage.saveQuery(savedQuery);
+      this.draft = null;
+      await this.refresh();
+      this.dispatch('query-saved', {savedQuery});
+    } catch (err) {
+      this.error = `Failed to save the query: ${
+        err instanceof Error ? err.message : 'Unknown error'
+      }`;
+    }
+  }
+
+  private async deleteSavedQuery(savedQuery: SavedQuery) {
+    try {
+      await this.storage.deleteSavedQuery(savedQuery.id);
+      await this.refresh();
+      this.dispatch('saved-query-deleted', {savedQuery});
+    } catch (err) {
+      this.error = `Failed to delete the query: ${
+        err instanceof Error ? err.message : 'Unknown error'
+      }`;
+    }
+  }
+
+  private async clearHistory() {
+    try {
+      await this.storage.clearHistory();
+      await this.refresh();
+      this.dispatch('history-cleared');
+    } catch (err) {
+      this.error = `Failed to clear the history: ${
+        err instanceof Error ? err.message : 'Unknown error'
+      }`;
+    }
+  }
+
+  private getEntryMeta(entry: HistoryEntry) {
+    const status =
+      entry.status === 'error'
+        ? entry.error ?? 'Error'
+        : entry.status === 'cancelled'
+        ? 'Cancelled'
+        : entry.rowCount !== null
+        ? `${entry.rowCount.toLocaleString()} row${
+            entry.rowCount === 1 ? '' : 's'
+          }`
+        : 'OK';
+    return html`${new Date(entry.executedAt).toLocaleString()} ·
+      ${entry.executionTime}ms · <span class="item-status">${status}</span>`;
+  }
+
+  private renderQueryActions(query: string) {
+    return html`
+      <button @click=${() => this.selectQuery(query, false)}>Load</button>
+      <button @click=${() => this.selectQuery(query, true)}>Run</button>
+    `;
+  }
+
+  private renderHistory() {
+    const entries = this.history.filter((entry) =>
+      matchesQuerySearch(entry, this.search)
+    );
+    if (entries.length === 0) {
+      return html`<div class="empty">
+        ${this.history.length === 0
+          ? 'No query has been run yet'
+          : 'No query matches the search'}
+      </div>`;
+    }
+
+    return html`<ul class="list" part="list">
+      ${entries.map(
+        (entry) => html`<li class="item ${entry.status}">
+          <div class="item-main">
+            <div class="item-query" title=${entry.query}>${entry.query}</div>
+            <div class="item-meta">${this.getEntryMeta(entry)}</div>
+          </div>
+          <div class="item-actions">
+            ${this.renderQueryActions(entry.query)}
+            <button @click=${() => this.openSaveForm(entry.query)}>Save</button>
+          </div>
+        </li>`
+      )}
+    </ul>`;
+  }
+
+  private renderSaveForm() {
+    const draft = this.draft;
+    if (!draft) {
+      return html`<div class="save-form">
+        <button
+          ?disabled=${!this.currentQuery.trim()}
+          @click=${() => this.openSaveForm(this.currentQuery)}
+        >
+          Save current query
+        </button>
+      </div>`;
+    }
+
+    return html`<form
+      class="save-form"
+      part="save-form"
+      @submit=${this.saveDraft}
+    >
+      <input
+        type="text"
+        placeholder="Name"
+        aria-label="Name"
+        required
+        .value=${draft.name}
+        @input=${(e: Event) =>
+          (this.draft = {
+            ...draft,
+            name: (e.target as HTMLInputElement).value,
+          })}
+      />
+      <input
+        type="text"
+        placeholder="Tags, comma separated"
+        aria-label="Tags"
+        .value=${draft.tags}
+        @input=${(e: Event) =>
+          (this.draft = {
+            ...draft,
+            tags: (e.target as HTMLInputElement).value,
+          })}
+      />
+      <button type="submit" ?disabled=${!draft.name.trim()}>Save</button>
+      <button type="button" @click=${() => (this.draft = null)}>Cancel</button>
+    </form>`;
+  }
+
+  private renderSavedQueries() {
+    const savedQueries = this.savedQueries.filter((query) =>
+      matchesQuerySearch(query, this.search)
+    );
+
+    return html`
+      ${this.renderSaveForm()}
+      ${savedQueries.length === 0
+        ? html`<div class="empty">
+            ${this.savedQueries.length === 0
+              ? 'No query has been saved yet'
+              : 'No query matches the search'}
+          </div>`
+        : html`<ul class="list" part="list">
+            ${savedQueries.map(
+              (savedQuery) => html`<li class="item">
+                <div class="item-main">
+                  <div>
+                    <span class="item-name">${savedQuery.name}</span>
+                    ${savedQuery.tags.map(
+                      (tag) => html`<span class="tag">#${tag}</span>`
+                    )}
+                  </div>
+                  <div class="item-query" title=${savedQuery.query}>
+                    ${savedQuery.query}
+                  </div>
+                </div>
+                <div class="item-actions">
+                  ${this.renderQueryActions(savedQuery.query)}
+                  <button
+                    @click=${() =>
+                      this.openSaveForm(this.currentQuery, savedQuery)}
+                    ?disabled=${!this.currentQuery.trim()}
+                    title="Replace with the current query"
+                  >
+                    Update
+                  </button>
+                  <button @click=${() => this.deleteSavedQuery(savedQuery)}>
+                    Delete
+                  </button>
+                </div>
+              </li>`
+            )}
+          </ul>`}
+    `;
+  }
+
+  override render() {
+    return html`
+      <div class="toolbar">
+        <div class="view-toggle">
+          <button
+            class=${this.view === 'history' ? 'active' : ''}
+            @click=${() => (this.view = 'history')}
+          >
+            History
+          </button>
+          <button
+            class=${this.view === 'saved' ? 'active' : ''}
+            @click=${() => (this.view = 'saved')}
+          >
+            Saved
+          </button>
+        </div>
+        <input
+          type="search"
+          part="search"
+          placeholder="Search queries, names or #tags..."
+          aria-label="Search queries"
+          .value=${this.search}
+          @input=${(e: Event) =>
+            (this.search = (e.target as HTMLInputElement).value)}
+        />
+        ${this.view === 'history'
+          ? html`<button
+              ?disabled=${this.history.length === 0}
+              @click=${this.clearHistory}
+            >
+              Clear history
+            </button>`
+          : ''}
+      </div>
+      ${this.error ? html`<div class="error-message">${this.error}</div>` : ''}
+      ${this.view === 'history'
+        ? this.renderHistory()
+        : this.renderSavedQueries()}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-query-history': DuckDbGridQueryHistory;
+  }
+}
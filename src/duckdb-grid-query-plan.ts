@@ -0,0 +1,319 @@
+import {css, html, LitElement} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {getPlanNodes, PlanNode, QueryPlan} from './queryPlan.js';
+
+/** Share of the total timing from which an operator is a hot spot. */
+const HOT_SPOT_SHARE = 0.2;
+
+/** Ratio between actual and estimated rows from which estimates are flagged. */
+const MISESTIMATE_RATIO = 10;
+
+function formatTiming(seconds: number) {
+  return seconds >= 1
+    ? `${seconds.toFixed(2)}s`
+    : `${(seconds * 1000).toFixed(seconds >= 0.01 ? 0 : 2)}ms`;
+}
+
+/**
+ * A web component displaying the operator tree of a query plan, as produced
+ * by `explainQuery`. Operators can be collapsed, and their details are listed
+ * below their name. For analyzed plans, every operator shows its timing and
+ * its share of the total, the rows it produced against the estimate, and
+ * the operators taking the most time are highlighted.
+ *
+ * @csspart summary - The total timing and the expand and collapse buttons
+ * @csspart node - An operator of the plan
+ */
+@customElement('duckdb-grid-query-plan')
+export class DuckDbGridQueryPlan extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-size: 13px;
+    }
+
+    .summary {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 12px;
+      color: #666;
+    }
+
+    .summary .total {
+      margin-right: auto;
+    }
+
+    button {
+      padding: 4px 10px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background-color: white;
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    ul {
+      margin: 0;
+      padding-left: 24px;
+      list-style: none;
+    }
+
+    .tree {
+      padding-left: 0;
+    }
+
+    li {
+      position: relative;
+      padding-top: 8px;
+    }
+
+    ul ul > li::before {
+      content: '';
+      position: absolute;
+      top: 0;
+      left: -14px;
+      width: 12px;
+      height: 24px;
+      border-left: 1px solid #ccc;
+      border-bottom: 1px solid #ccc;
+    }
+
+    ul ul > li:not(:last-child)::after {
+      content: '';
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      left: -14px;
+      border-left: 1px solid #ccc;
+    }
+
+    .node {
+      display: inline-block;
+      min-width: 240px;
+      max-width: 100%;
+      box-sizing: border-box;
+      padding: 6px 10px;
+      border: 1px solid #ddd;
+      border-left: 4px solid #ddd;
+      border-radius: 4px;
+      background-color: white;
+    }
+
+    .node.hot {
+      border-left-color: #d32f2f;
+      background-color: #fff5f5;
+    }
+
+    .node-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .toggle {
+      width: 16px;
+      padding: 0;
+      border: none;
+      background: none;
+      color: #666;
+    }
+
+    .node-name {
+      font-weight: bold;
+    }
+
+    .node-stats {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 12px;
+      margin-top: 4px;
+      color: #666;
+      font-size: 12px;
+    }
+
+    .misestimate {
+      color: #8a6d3b;
+    }
+
+    .timing-bar {
+      height: 4px;
+      margin-top: 4px;
+      border-radius: 2px;
+      background-color: #eee;
+    }
+
+    .timing-bar-fill {
+      height: 100%;
+      border-radius: 2px;
+      background-color: #007bff;
+    }
+
+    .node.hot .timing-bar-fill {
+      background-color: #d32f2f;
+    }
+
+    .extra-info {
+      margin: 4px 0 0;
+      font-size: 12px;
+    }
+
+    .extra-info dt {
+      color: #666;
+    }
+
+    .extra-info dd {
+      margin: 0 0 2px 12px;
+      white-space: pre-wrap;
+      word-break: break-word;
+      font-family: 'Courier New', monospace;
+    }
+  `;
+
+  @property({attribute: false})
+  plan: QueryPlan | null = null;
+
+  @state()
+  private collapsed = new Set<PlanNode>();
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    super.willUpdate(changedProperties);
+    if (changedProperties.has('plan')) {
+      this.collapsed = new Set();
+    }
+  }
+
+  private toggle(node: PlanNode) {
+    const collapsed = new Set(this.collapsed);
+    if (collapsed.has(node)) {
+      collapsed.delete(node);
+    } else {
+      collapsed.add(node);
+    }
+    this.collapsed = collapsed;
+  }
+
+  private collapseAll() {
+    this.collapsed = new Set(
+      this.plan
+        ? getPlanNodes(this.plan).filter((node) => node.children.length > 0)
+        : []
+    );
+  }
+
+  private renderStats(node: PlanNode, totalTiming: number | null) {
+    const stats = [];
+    if (node.timing !== null && totalTiming) {
+      const share = node.timing / totalTiming;
+      stats.push(
+        html`<span
+          >${formatTiming(node.timing)} (${(share * 100).toFixed(1)}%)</span
+        >`
+      );
+    }
+    if (node.cardinality !== null) {
+      const estimate = node.estimatedCardinality;
+      const ratio =
+        estimate !== null
+          ? Math.max(node.cardinality, 1) / Math.max(estimate, 1)
+          : 1;
+      const isMisestimated =
+        ratio >= MISESTIMATE_RATIO || ratio <= 1 / MISESTIMATE_RATIO;
+      stats.push(
+        html`<span class=${isMisestimated ? 'misestimate' : ''}
+          >${node.cardinality.toLocaleString()}
+          rows${estimate !== null
+            ? ` (estimated ${estimate.toLocaleString()})`
+            : ''}</span
+        >`
+      );
+    } else if (node.estimatedCardinality !== null) {
+      stats.push(
+        html`<span
+          >~${node.estimatedCardinality.toLocaleString()} rows estimated</span
+        >`
+      );
+    }
+    return stats;
+  }
+
+  private renderNode(node: PlanNode, totalTiming: number | null): unknown {
+    const share =
+      node.timing !== null && totalTiming ? node.timing / totalTiming : null;
+    const isCollapsed = this.collapsed.has(node);
+    const extraInfo = Object.entries(node.extraInfo).filter(
+      ([, value]) => value !== ''
+    );
+
+    return html`<li>
+      <div
+        class="node ${share !== null && share >= HOT_SPOT_SHARE ? 'hot' : ''}"
+        part="node"
+      >
+        <div class="node-header">
+          ${node.children.length > 0
+            ? html`<button
+                class="toggle"
+                aria-expanded=${isCollapsed ? 'false' : 'true'}
+                aria-label=${isCollapsed ? 'Expand' : 'Collapse'}
+                @click=${() => this.toggle(node)}
+              >
+                ${isCollapsed ? '▸' : '▾'}
+              </button>`
+            : ''}
+          <span class="node-name">${node.name}</span>
+        </div>
+        <div class="node-stats">${this.renderStats(node, totalTiming)}</div>
+        ${share !== null
+          ? html`<div class="timing-bar">
+              <div
+                class="timing-bar-fill"
+                style="width: ${Math.max(share * 100, 0.5)}%"
+              ></div>
+            </div>`
+          : ''}
+        ${extraInfo.length > 0
+          ? html`<dl class="extra-info">
+              ${extraInfo.map(
+                ([key, value]) => html`<dt>${key}</dt>
+                  <dd>${value}</dd>`
+              )}
+            </dl>`
+          : ''}
+      </div>
+      ${node.children.length > 0 && !isCollapsed
+        ? html`<ul>
+            ${node.children.map((child) => this.renderNode(child, totalTiming))}
+          </ul>`
+        : ''}
+    </li>`;
+  }
+
+  override render() {
+    const plan = this.plan;
+    if (!plan) {
+      return '';
+    }
+
+    return html`
+      <div class="summary" part="summary">
+        <span class="total">
+          ${plan.analyzed && plan.totalTiming !== null
+            ? `Total operator time: ${formatTiming(plan.totalTiming)}`
+            : 'Estimated plan, run Explain Analyze for timings'}
+        </span>
+        <button @click=${() => (this.collapsed = new Set())}>Expand all</button>
+        <button @click=${this.collapseAll}>Collapse all</button>
+      </div>
+      <ul class="tree">
+        ${plan.roots.map((node) => this.renderNode(node, plan.totalTiming))}
+      </ul>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-query-plan': DuckDbGridQueryPlan;
+  }
+}
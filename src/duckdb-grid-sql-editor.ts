@@ -0,0 +1,554 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {css, html, LitElement} from 'lit';
+import {customElement, property, query, state} from 'lit/decorators.js';
+import {
+  findMatchingBracket,
+  SQL_KEYWORDS,
+  SqlToken,
+  tokenizeSql,
+} from './sqlSyntax.js';
+
+/** Maximum number of completions listed. */
+const MAX_COMPLETION_COUNT = 20;
+
+const LINE_HEIGHT = 20;
+const PADDING = 12;
+
+interface Completion {
+  label: string;
+  kind: 'keyword' | 'function' | 'table' | 'column';
+}
+
+/** An error to underline, located by its offset in the text. */
+export interface EditorError {
+  offset: number;
+  message: string;
+}
+
+/**
+ * A web component for editing DuckDB SQL, with syntax highlighting, bracket
+ * matching, line numbers and autocompletion of keywords, functions, tables
+ * and columns. The text is edited in a transparent `<textarea>` laid over its
+ * highlighted copy.
+ *
+ * Completions open while typing a word, or with Ctrl+Space, and are
+ * accepted with Enter or Tab. After `table.`, the columns of the table are
+ * completed.
+ *
+ * @fires value-changed - Indicates when the user edits the text. The detail
+ * holds the new `value`.
+ * @csspart textarea - The textarea element
+ * @csspart completions - The list of completions
+ */
+@customElement('duckdb-grid-sql-editor')
+export class DuckDbGridSqlEditor extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background-color: white;
+      overflow: hidden;
+      resize: vertical;
+      height: 160px;
+      min-height: 60px;
+    }
+
+    .editor {
+      display: flex;
+      height: 100%;
+      font-family: 'Courier New', monospace;
+      font-size: 14px;
+      line-height: ${LINE_HEIGHT}px;
+    }
+
+    .gutter {
+      flex: none;
+      min-width: 3ch;
+      padding: ${PADDING}px 8px;
+      overflow: hidden;
+      border-right: 1px solid #eee;
+      background-color: #fafafa;
+      color: #999;
+      text-align: right;
+      user-select: none;
+    }
+
+    .code {
+      position: relative;
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+    }
+
+    pre,
+    textarea {
+      box-sizing: border-box;
+      margin: 0;
+      padding: ${PADDING}px;
+      border: none;
+      font: inherit;
+      line-height: inherit;
+      white-space: pre;
+      tab-size: 2;
+    }
+
+    pre {
+      position: absolute;
+      top: 0;
+      left: 0;
+      pointer-events: none;
+      color: #333;
+    }
+
+    textarea {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+      resize: none;
+      outline: none;
+      overflow: auto;
+      background: transparent;
+      color: transparent;
+      caret-color: #333;
+    }
+
+    textarea::placeholder {
+      color: #999;
+    }
+
+    textarea::selection {
+      background-color: rgba(0, 123, 255, 0.25);
+    }
+
+    .keyword {
+      color: #0033b3;
+      font-weight: bold;
+    }
+
+    .string {
+      color: #067d17;
+    }
+
+    .number {
+      color: #1750eb;
+    }
+
+    .comment {
+      color: #8c8c8c;
+      font-style: italic;
+    }
+
+    .quoted-identifier {
+      color: #871094;
+    }
+
+    .parameter {
+      color: #c15c00;
+    }
+
+    .bracket-match {
+      background-color: #d0e8ff;
+      outline: 1px solid #9cc7f5;
+    }
+
+    .bracket-unmatched {
+      background-color: #ffd6d6;
+    }
+
+    .error-underline {
+      text-decoration: underline wavy #d32f2f;
+      text-decoration-skip-ink: none;
+    }
+
+    .completions {
+      position: absolute;
+      z-index: 2;
+      min-width: 200px;
+      max-height: 200px;
+      margin: 0;
+      padding: 4px 0;
+      overflow-y: auto;
+      list-style: none;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background-color: white;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+    }
+
+    .completion {
+      display: flex;
+      justify-content: space-between;
+      gap: 16px;
+      padding: 0 8px;
+      cursor: pointer;
+    }
+
+    .completion.active {
+      background-color: #e8f0fe;
+    }
+
+    .completion-kind {
+      color: #999;
+      font-size: 12px;
+    }
+  `;
+
+  @property({type: String})
+  value = '';
+
+  @property({type: String})
+  placeholder = '';
+
+  /** Connection whose catalog feeds the completions. */
+  @property({type: Object})
+  connection: AsyncDuckDBConnection | null = null;
+
+  /** An error to underline, or null. */
+  @property({attribute: false})
+  error: EditorError | null = null;
+
+  @state()
+  private cursor = 0;
+
+  @state()
+  private codeScrollTop = 0;
+
+  @state()
+  private codeScrollLeft = 0;
+
+  @state()
+  private completions: Completion[] = [];
+
+  @state()
+  private activeCompletion = 0;
+
+  @state()
+  private keywords = new Set(SQL_KEYWORDS);
+
+  private functions: string[] = [];
+
+  /** Columns by table name. */
+  private columns = new Map<string, string[]>();
+
+  @query('textarea')
+  private textarea!: HTMLTextAreaElement;
+
+  /** Offset where the word being completed starts. */
+  private completionStart = 0;
+
+  get selectionStart() {
+    return this.textarea?.selectionStart ?? 0;
+  }
+
+  get selectionEnd() {
+    return this.textarea?.selectionEnd ?? 0;
+  }
+
+  override focus() {
+    this.textarea?.focus();
+  }
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    super.willUpdate(changedProperties);
+    if (changedProperties.has('connection')) {
+      this.refreshCatalog();
+    }
+  }
+
+  /** Loads keywords, functions, tables and columns for the completions. */
+  async refreshCatalog() {
+    if (!this.connection) {
+      return;
+    }
+
+    try {
+      const [keywords, functions, columns] = await Promise.all([
+        this.connection.query('SELECT keyword_name FROM duckdb_keywords()'),
+        this.connection.query(
+          'SELECT DISTINCT function_name FROM duckdb_functions() ORDER BY 1'
+        ),
+        this.connection.query(
+          `SELECT table_name, column_name FROM duckdb_columns()
+            WHERE NOT internal ORDER BY table_name, column_index`
+        ),
+      ]);
+
+      this.keywords = new Set(
+        keywords.toArray().map((row) => row.keyword_name as string)
+      );
+      this.functions = functions
+        .toArray()
+        .map((row) => row.function_name as string)
+        .filter((name) => /^[a-z_][a-z0-9_]*$/.test(name));
+      this.columns = new Map();
+      for (const row of columns.toArray()) {
+        const table = row.table_name as string;
+        this.columns.set(table, [
+          ...(this.columns.get(table) ?? []),
+          row.column_name as string,
+        ]);
+      }
+    } catch {
+      // Completions are best effort: the defaults are kept
+    }
+  }
+
+  private updateValue(value: string) {
+    this.value = value;
+    this.dispatchEvent(
+      new CustomEvent('value-changed', {
+        detail: {value},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /** Lists the completions of the word before the cursor. */
+  private complete(force: boolean) {
+    const before = this.value.slice(0, this.cursor);
+    const match =
+      /(?:([A-Za-z_][A-Za-z0-9_]*)\.)?([A-Za-z_][A-Za-z0-9_]*)?$/.exec(before)!;
+    const [, qualifier, word = ''] = match;
+    if (!force && !qualifier && word.length === 0) {
+      this.completions = [];
+      return;
+    }
+
+    const prefix = word.toLowerCase();
+    const matches = (label: string) =>
+      label.toLowerCase().startsWith(prefix) && label !== word;
+
+    let candidates: Completion[];
+    const qualifiedColumns = qualifier && this.columns.get(qualifier);
+    if (qualifiedColumns) {
+      candidates = qualifiedColumns.map((label) => ({label, kind: 'column'}));
+    } else {
+      const columns = new Set([...this.columns.values()].flat());
+      candidates = [
+        ...[...this.keywords].map(
+          (keyword): Completion => ({
+            label: keyword.toUpperCase(),
+            kind: 'keyword',
+          })
+        ),
+        ...[...this.columns.keys()].map(
+          (label): Completion => ({
+            label,
+            kind: 'table',
+          })
+        ),
+        ...[...columns].map((label): Completion => ({label, kind: 'column'})),
+        ...this.functions.map(
+          (label): Completion => ({
+            label,
+            kind: 'function',
+          })
+        ),
+      ];
+    }
+
+    this.completionStart = this.cursor - word.length;
+    this.completions = candidates
+      .filter(({label}) => matches(label))
+      .slice(0, MAX_COMPLETION_COUNT);
+    this.activeCompletion = 0;
+  }
+
+  private acceptCompletion(completion: Completion) {
+    const text =
+      completion.kind === 'function'
+        ? `${completion.label}(`
+        : completion.label;
+    const value =
+      this.value.slice(0, this.completionStart) +
+      text +
+      this.value.slice(this.cursor);
+    const cursor = this.completionStart + text.length;
+
+    this.completions = [];
+    this.updateValue(value);
+    this.cursor = cursor;
+    this.updateComplete.then(() => {
+      this.textarea.setSelectionRange(cursor, cursor);
+      this.textarea.focus();
+    });
+  }
+
+  private handleInput(e: InputEvent) {
+    const textarea = e.target as HTMLTextAreaElement;
+    this.cursor = textarea.selectionStart;
+    this.updateValue(textarea.value);
+    if (e.inputType === 'insertText' && /[A-Za-z0-9_.]/.test(e.data ?? '')) {
+      this.complete(false);
+    } else {
+      this.completions = [];
+    }
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      this.complete(true);
+      return;
+    }
+
+    if (this.completions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const count = this.completions.length;
+        this.activeCompletion =
+          (this.activeCompletion + (e.key === 'ArrowDown' ? 1 : count - 1)) %
+          count;
+        return;
+      }
+      if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+        e.preventDefault();
+        e.stopPropagation();
+        this.acceptCompletion(this.completions[this.activeCompletion]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        this.completions = [];
+        return;
+      }
+    }
+
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      document.execCommand('insertText', false, '  ');
+    }
+  }
+
+  private handleSelectionChange() {
+    this.cursor = this.textarea.selectionStart;
+  }
+
+  private handleScroll() {
+    this.codeScrollTop = this.textarea.scrollTop;
+    this.codeScrollLeft = this.textarea.scrollLeft;
+  }
+
+  private getTokenClass(
+    token: SqlToken,
+    brackets: [number, number | null] | null
+  ) {
+    const classes: string[] = [token.type];
+    if (brackets && token.type === 'bracket') {
+      if (token.start === brackets[1]) {
+        classes.push('bracket-match');
+      } else if (token.start === brackets[0]) {
+        classes.push(
+          brackets[1] === null ? 'bracket-unmatched' : 'bracket-match'
+        );
+      }
+    }
+    return classes.join(' ');
+  }
+
+  private renderHighlight() {
+    const tokens = tokenizeSql(this.value, this.keywords);
+    const brackets = findMatchingBracket(tokens, this.cursor);
+    const error = this.error;
+
+    return tokens.map((token) => {
+      const className = this.getTokenClass(token, brackets);
+      const end = token.start + token.text.length;
+      // Underline the token at the error, or the character before the end
+      const hasError =
+        error !== null &&
+        token.type !== 'whitespace' &&
+        ((error.offset >= token.start && error.offset < end) ||
+          (error.offset >= this.value.length && end === this.value.length));
+      return hasError
+        ? html`<span class="${className} error-underline" title=${error.message}
+            >${token.text}</span
+          >`
+        : html`<span class=${className}>${token.text}</span>`;
+    });
+  }
+
+  private renderCompletions() {
+    if (this.completions.length === 0) {
+      return '';
+    }
+
+    const before = this.value.slice(0, this.completionStart);
+    const line = before.split('\n').length;
+    const column = before.length - before.lastIndexOf('\n') - 1;
+
+    return html`<ul
+      class="completions"
+      part="completions"
+      role="listbox"
+      style="top: ${line * LINE_HEIGHT + PADDING - this.codeScrollTop}px;
+        left: calc(${column}ch + ${PADDING - this.codeScrollLeft}px)"
+    >
+      ${this.completions.map(
+        (completion, i) => html`<li
+          class="completion ${i === this.activeCompletion ? 'active' : ''}"
+          role="option"
+          aria-selected=${i === this.activeCompletion ? 'true' : 'false'}
+          @mousedown=${(e: MouseEvent) => {
+            e.preventDefault();
+            this.acceptCompletion(completion);
+          }}
+        >
+          <span>${completion.label}</span>
+          <span class="completion-kind">${completion.kind}</span>
+        </li>`
+      )}
+    </ul>`;
+  }
+
+  override render() {
+    const lineCount = this.value.split('\n').length;
+
+    return html`
+      <div class="editor">
+        <div class="gutter" aria-hidden="true">
+          <div style="transform: translateY(${-this.codeScrollTop}px)">
+            ${Array.from(
+              {length: lineCount},
+              (_, i) => html`<div>${i + 1}</div>`
+            )}
+          </div>
+        </div>
+        <div class="code">
+          <pre
+            aria-hidden="true"
+            style="transform: translate(${-this.codeScrollLeft}px, ${-this
+              .codeScrollTop}px)"
+          ><code>${this.renderHighlight()}</code>
+</pre>
+          <textarea
+            part="textarea"
+            spellcheck="false"
+            autocapitalize="off"
+            autocomplete="off"
+            .value=${this.value}
+            placeholder=${this.placeholder}
+            aria-label="SQL"
+            @input=${this.handleInput}
+            @keydown=${this.handleKeyDown}
+            @keyup=${this.handleSelectionChange}
+            @click=${this.handleSelectionChange}
+            @select=${this.handleSelectionChange}
+            @scroll=${this.handleScroll}
+            @blur=${() => (this.completions = [])}
+          ></textarea>
+          ${this.renderCompletions()}
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-sql-editor': DuckDbGridSqlEditor;
+  }
+}
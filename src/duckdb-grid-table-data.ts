@@ -1,13 +1,141 @@
-import {Table} from 'apache-arrow';
+import {DataType, Field, Table} from 'apache-arrow';
 import {css, html, LitElement} from 'lit';
-import {customElement, property} from 'lit/decorators.js';
-import {mapArrowTableToJsRows} from './mapArrowTableToJsRows';
+import {customElement, property, query, state} from 'lit/decorators.js';
+import {
+  formatArrowValue,
+  formatNestedPreview,
+  FormatOptions,
+  getArrowTypeCategory,
+  getArrowValue,
+} from './arrowValues.js';
+import {CellRenderers, getCellRenderer} from './cellRenderers.js';
+import './duckdb-grid-value-viewer.js';
+import {
+  CellRange,
+  COPY_FORMATS,
+  CopyFormat,
+  formatCellRange,
+  getCellText,
+} from './clipboard.js';
+import {
+  CellText,
+  Changeset,
+  EMPTY_CHANGESET,
+  getCellKey,
+  getRowKey,
+  toCellText,
+} from './changeset.js';
+import {
+  ColumnFilter,
+  ColumnFilterKind,
+  filterRowIndexes,
+  getColumnFilter,
+  getValueFilter,
+  setColumnFilter,
+} from './filter.js';
+import {
+  ColumnLayout,
+  ColumnState,
+  DEFAULT_PINNED_WIDTH,
+  MIN_COLUMN_WIDTH,
+  moveColumnLayout,
+  resolveColumnLayout,
+  updateColumnLayout,
+} from './columnState.js';
+import {RowGroups} from './pivot.js';
+import {SortColumn, sortRowIndexes, toggleSort} from './sort.js';
+import {FlattenedColumn} from './sql.js';
+import {isAppendedTo} from './stream.js';
+
+/** Row height used until the first rendered row has been measured. */
+const ESTIMATED_ROW_HEIGHT = 35;
+
+/** Width of the row actions column, including its padding. */
+const ROW_ACTIONS_WIDTH = 32;
+
+/** How long the outcome of a copy is displayed, in ms. */
+const COPY_STATUS_DURATION = 2000;
+
+/** A displayed cell, by the display index of its row and its column name. */
+interface CellPosition {
+  row: number;
+  column: string;
+}
+
+/** The rows and columns of the selected cells, in display order. */
+interface SelectedRange {
+  firstRow: number;
+  lastRow: number;
+  columns: string[];
+}
 
 /**
  * A web component for displaying table data from a DuckDB database.
  *
+ * Rows are virtualized: only the rows intersecting the viewport (plus
+ * `overscan` rows on each side) are rendered, and their cells are read
+ * lazily from the Arrow table.
+ *
+ * Clicking a header cycles its sort between ascending, descending and none;
+ * shift-click adds the column to a multi-column sort. In `client` sort mode
+ * the rows are sorted locally, in `server` mode the owner is expected to
+ * listen to `sort-changed` and provide an already sorted table.
+ *
+ * When `filterable` is set, a filter row is rendered under the header with
+ * inputs matching each column type. Filters follow the same client/server
+ * split as sorting, through `filterMode` and `filter-changed`.
+ *
+ * LIST, STRUCT and MAP cells show a short preview; clicking it opens the
+ * value in a side panel.
+ *
+ * Values are formatted in the browser's locale, and TIMESTAMP WITH TIME ZONE
+ * values in UTC, unless `locale` and `timeZone` are set. `cellRenderers`
+ * replaces the content of the cells of some columns or types, such as with
+ * the links, bars and number formats of `cellRenderers.js`.
+ *
+ * When `editable` is set, double-clicking a cell opens an editor matching
+ * its type, and rows can be marked for deletion. Edits are not written: they
+ * are reported through events for the owner to stage in `changeset`, whose
+ * edited, deleted and inserted rows are then displayed. Rows are identified
+ * by their `primaryKey` values.
+ *
+ * With `rowGroups`, such as the rows of a pivot, subtotal rows are
+ * highlighted and can be collapsed to hide the rows they sum up. The column
+ * holding the depth of the rows is not displayed.
+ *
+ * Columns can be resized and reordered by dragging their header, hidden and
+ * pinned to the left through the column chooser. Their layout is held in
+ * `columnState`, which can be saved and restored by the owner.
+ *
+ * The table is an ARIA grid: clicking a cell selects it, shift-click or
+ * shift with the arrow, Page Up/Down and Home/End keys extends the selection
+ * from it, and Ctrl+A selects all the rows. Ctrl+C copies the selection as
+ * TSV, and right-clicking a cell (or Shift+F10) opens a menu to copy it in
+ * other formats or to filter by its value.
+ *
+ * @fires sort-changed - Indicates when the user changes the sort
+ * @fires filter-changed - Indicates when the user changes the filters
+ * @fires filter-options-requested - Indicates when the user focuses the text
+ * filter of a column without `filterOptions`. The detail holds the `column`,
+ * whose pick-list the owner may load.
+ * @fires flatten-column - Indicates when the user asks for a nested column
+ * to be flattened, see `flattenable`
+ * @fires cell-edited - Indicates when the user edits a cell. The detail holds
+ * the `rowKey` (or id of an inserted row), whether the row is `inserted`, the
+ * `column`, the new `value` and the `original` one, as `CellText`.
+ * @fires row-delete-toggled - Indicates when the user marks a row for deletion
+ * or restores it. The detail holds the `rowKey`.
+ * @fires inserted-row-removed - Indicates when the user removes a row staged
+ * for insertion. The detail holds its `id`.
+ * @fires column-state-changed - Indicates when the user resizes, moves, hides
+ * or pins a column. The detail holds the new `columnState`.
  * @slot - This element has a slot
  * @csspart table - The table element
+ * @csspart viewport - The scrollable element wrapping the table
+ * @csspart nested-panel - The side panel showing a nested value
+ * @csspart column-chooser - The list of columns to hide, show and pin
+ * @csspart context-menu - The menu of actions on the selected cells
+ * @cssprop --duckdb-grid-viewport-height - Maximum height of the scrollable viewport
  */
 @customElement('duckdb-grid-table-data')
 export class DuckDbGridTableData extends LitElement {
@@ -20,7 +148,12 @@ export class DuckDbGridTableData extends LitElement {
 
     .data-container {
       width: 100%;
-      overflow-x: auto;
+    }
+
+    .viewport {
+      width: 100%;
+      max-height: var(--duckdb-grid-viewport-height, 480px);
+      overflow: auto;
     }
 
     .table-title {
@@ -47,26 +180,129 @@ export class DuckDbGridTableData extends LitElement {
       max-width: 200px;
     }
 
+    thead {
+      position: sticky;
+      top: 0;
+      z-index: 2;
+    }
+
     th {
+      position: relative;
       background-color: #f5f5f5;
       font-weight: bold;
       border-bottom: 2px solid #ccc;
-      position: sticky;
+      cursor: pointer;
+      user-select: none;
+    }
+
+    th:hover {
+      background-color: #ebebeb;
+    }
+
+    th.drag-over {
+      box-shadow: inset 3px 0 0 #007bff;
+    }
+
+    .resize-handle {
+      position: absolute;
       top: 0;
+      right: 0;
+      bottom: 0;
+      width: 6px;
+      cursor: col-resize;
+    }
+
+    .resize-handle:hover {
+      background-color: #ccc;
+    }
+
+    .pinned {
+      position: sticky;
+      z-index: 1;
+    }
+
+    td.pinned {
+      background-color: inherit;
+    }
+
+    .last-pinned {
+      box-shadow: inset -2px 0 0 #ddd;
+    }
+
+    .filter-row th {
+      padding: 4px;
+      font-weight: normal;
+      cursor: default;
+    }
+
+    .filter-row th:hover {
+      background-color: #f5f5f5;
+    }
+
+    .filter-inputs {
+      display: flex;
+      gap: 2px;
+    }
+
+    .filter-inputs input,
+    .filter-inputs select {
+      min-width: 0;
+      flex: 1;
+      padding: 2px 4px;
+      border: 1px solid #ccc;
+      border-radius: 3px;
+      font-size: 12px;
+    }
+
+    .filter-inputs .filter-null {
+      flex: 0 0 auto;
+      width: 24px;
+    }
+
+    .regex-toggle,
+    .filter-clear {
+      flex: 0 0 auto;
+      padding: 0 4px;
+      border: 1px solid #ccc;
+      border-radius: 3px;
+      background: white;
+      font-family: monospace;
+      font-size: 11px;
+      cursor: pointer;
+    }
+
+    .regex-toggle[aria-pressed='true'] {
+      background: #e3f0ff;
+      border-color: #0066cc;
     }
 
-    tr:hover {
+    .sort-indicator {
+      margin-left: 4px;
+      color: #666;
+      font-size: 12px;
+    }
+
+    tr.data-row {
+      background-color: white;
+    }
+
+    tr.data-row:hover {
       background-color: #f9f9f9;
     }
 
-    tr:nth-child(even) {
+    tr.data-row.even {
       background-color: #fafafa;
     }
 
-    tr:nth-child(even):hover {
+    tr.data-row.even:hover {
       background-color: #f0f0f0;
     }
 
+    tr.spacer td {
+      padding: 0;
+      border: none;
+    }
+
     .no-data {
       color: #666;
       padding: 20px;
@@ -74,12 +310,116 @@ export class DuckDbGridTableData extends LitElement {
       font-style: italic;
     }
 
+    .streaming {
+      margin-left: 8px;
+      font-style: italic;
+    }
+
     .row-count {
+      position: relative;
+      display: flex;
+      align-items: center;
       padding: 8px;
       color: #666;
       font-size: 14px;
     }
 
+    .column-chooser-button {
+      margin-left: auto;
+      padding: 2px 8px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background: white;
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    .column-chooser {
+      position: absolute;
+      top: 100%;
+      right: 8px;
+      z-index: 3;
+      max-height: 320px;
+      overflow: auto;
+      margin: 0;
+      padding: 8px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background: white;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      list-style: none;
+      color: #333;
+      font-size: 13px;
+    }
+
+    .column-chooser li {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 2px 0;
+    }
+
+    .column-chooser label {
+      flex: 1;
+      white-space: nowrap;
+    }
+
+    .pin-toggle {
+      padding: 0 4px;
+      border: 1px solid transparent;
+      border-radius: 3px;
+      background: none;
+      color: #999;
+      font-size: 11px;
+      cursor: pointer;
+    }
+
+    .pin-toggle[aria-pressed='true'] {
+      border-color: #007bff;
+      color: #007bff;
+    }
+
+    .copy-status {
+      margin-left: 8px;
+      color: #2e7d32;
+    }
+
+    .context-menu {
+      position: fixed;
+      z-index: 4;
+      min-width: 180px;
+      margin: 0;
+      padding: 4px 0;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background: white;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      list-style: none;
+      font-size: 13px;
+    }
+
+    .context-menu button {
+      display: block;
+      width: 100%;
+      padding: 4px 12px;
+      border: none;
+      background: none;
+      text-align: left;
+      font: inherit;
+      cursor: pointer;
+    }
+
+    .context-menu button:hover,
+    .context-menu button:focus {
+      background-color: #e8f0fe;
+      outline: none;
+    }
+
+    .context-menu [role='separator'] {
+      margin: 4px 0;
+      border-top: 1px solid #ddd;
+    }
+
     .cell-null {
       color: #999;
       font-style: italic;
@@ -92,6 +432,170 @@ export class DuckDbGridTableData extends LitElement {
     .cell-date {
       color: #0066cc;
     }
+
+    .cell-nested {
+      font-family: monospace;
+      font-size: 12px;
+    }
+
+    .nested-preview {
+      padding: 0;
+      border: none;
+      background: none;
+      color: #0066cc;
+      font: inherit;
+      cursor: pointer;
+    }
+
+    .nested-preview:hover {
+      text-decoration: underline;
+    }
+
+    .data-body {
+      display: flex;
+      gap: 8px;
+    }
+
+    .data-body .viewport {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .nested-panel {
+      flex: 0 0 320px;
+      max-height: var(--duckdb-grid-viewport-height, 480px);
+      overflow: auto;
+      border: 1px solid #ccc;
+      background: white;
+    }
+
+    .nested-panel-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px;
+      background-color: #f5f5f5;
+      border-bottom: 1px solid #ccc;
+      font-weight: bold;
+      font-size: 14px;
+    }
+
+    .nested-panel-header span {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .nested-panel-header button {
+      background: white;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      padding: 2px 8px;
+      cursor: pointer;
+      font-size: 12px;
+    }
+
+    duckdb-grid-value-viewer {
+      padding: 8px;
+    }
+
+    .row-actions {
+      width: 24px;
+      padding: 0 4px;
+      text-align: center;
+    }
+
+    .row-actions button {
+      padding: 0 4px;
+      border: none;
+      background: none;
+      color: #666;
+      cursor: pointer;
+    }
+
+    .row-actions.row-error {
+      background-color: #ffebee;
+    }
+
+    tr.row-deleted td:not(.row-actions) {
+      color: #999;
+      text-decoration: line-through;
+    }
+
+    tr.group-row {
+      background-color: #f0f4f8;
+      font-weight: bold;
+    }
+
+    .group-toggle {
+      width: 18px;
+      margin-right: 4px;
+      padding: 0;
+      border: none;
+      background: none;
+      color: #666;
+      cursor: pointer;
+    }
+
+    tr.row-inserted {
+      background-color: #f1f8e9;
+    }
+
+    td.cell-edited {
+      background-color: #fff8e1;
+    }
+
+    td.cell-invalid {
+      outline: 2px solid #d32f2f;
+      outline-offset: -2px;
+    }
+
+    td.cell-editing {
+      padding: 2px;
+      overflow: visible;
+    }
+
+    .cell-editor {
+      display: flex;
+      gap: 2px;
+    }
+
+    .cell-editor input,
+    .cell-editor select {
+      min-width: 0;
+      flex: 1;
+      padding: 4px;
+      border: 1px solid #0066cc;
+      border-radius: 3px;
+      font: inherit;
+    }
+
+    .cell-editor button {
+      padding: 0 4px;
+      border: 1px solid #ccc;
+      border-radius: 3px;
+      background: white;
+      font-size: 11px;
+      cursor: pointer;
+    }
+
+    table:focus {
+      outline: none;
+    }
+
+    td.cell-selected {
+      background-color: #e3f0ff;
+    }
+
+    td.cell-active {
+      outline: 2px solid #99c2ff;
+      outline-offset: -2px;
+    }
+
+    table:focus td.cell-active {
+      outline-color: #0066cc;
+    }
   `;
 
   @property({type: Object})
@@ -100,93 +604,1932 @@ export class DuckDbGridTableData extends LitElement {
   @property({type: Number})
   totalRowCount: number | null = null;
 
-  private formatCellValue(value: unknown): string {
-    if (value === null || value === undefined) {
-      return 'NULL';
+  /** Position of the first row of `table` within the full result. */
+  @property({type: Number})
+  rowOffset = 0;
+
+  /**
+   * Fixed height of a row in pixels. When null, the height of the first
+   * rendered row is measured and used instead.
+   */
+  @property({type: Number})
+  rowHeight: number | null = null;
+
+  /** Columns the rows are sorted by, in order of precedence. */
+  @property({type: Array})
+  sort: SortColumn[] = [];
+
+  /**
+   * Whether `sort` is applied to the rows locally (`client`) or is already
+   * reflected in the provided table (`server`).
+   */
+  @property({type: String})
+  sortMode: 'client' | 'server' = 'client';
+
+  /** Whether a filter row is rendered under the header. */
+  @property({type: Boolean})
+  filterable = false;
+
+  /** The active filters. */
+  @property({type: Array})
+  filters: ColumnFilter[] = [];
+
+  /** Whether `filters` are applied locally or already reflected in `table`. */
+  @property({type: String})
+  filterMode: 'client' | 'server' = 'client';
+
+  /**
+   * Allowed values of columns that are filtered through a pick-list, which
+   * replaces the text filter once loaded, see `filter-options-requested`.
+   */
+  @property({type: Object})
+  filterOptions: Record<string, string[]> = {};
+
+  /**
+   * Whether the nested value panel offers to flatten the column. The owner
+   * is expected to handle `flatten-column` by rewriting its query.
+   */
+  @property({type: Boolean})
+  flattenable = false;
+
+  /**
+   * Whether more rows are still arriving. Tables that only append record
+   * batches to the previous one keep the scroll position and expanded cell.
+   */
+  @property({type: Boolean})
+  streaming = false;
+
+  /** Whether cells can be edited and rows deleted, see `changeset`. */
+  @property({type: Boolean})
+  editable = false;
+
+  /** Columns identifying the rows when `editable` is set. */
+  @property({type: Array})
+  primaryKey: string[] = [];
+
+  /** The edits staged by the owner, displayed over the rows of `table`. */
+  @property({attribute: false})
+  changeset: Changeset = EMPTY_CHANGESET;
+
+  /** Validation errors of the edited cells, by `getCellKey`. */
+  @property({attribute: false})
+  cellErrors: Record<string, string> = {};
+
+  /** Errors of whole rows, such as constraint violations, by row key. */
+  @property({attribute: false})
+  rowErrors: Record<string, string> = {};
+
+  /** Widths, order, visibility and pinning of the columns. */
+  @property({attribute: false})
+  columnState: ColumnState = [];
+
+  /** How the rows are grouped, to display their subtotals as groups. */
+  @property({attribute: false})
+  rowGroups: RowGroups | null = null;
+
+  /** Locale of the numbers, such as `de-DE`, the browser's by default. */
+  @property({type: String})
+  locale: string | null = null;
+
+  /**
+   * IANA time zone of the TIMESTAMP WITH TIME ZONE values, such as
+   * `Europe/Paris`, UTC by default.
+   */
+  @property({type: String})
+  timeZone: string | null = null;
+
+  /** Custom renderers of the cells, by column name or Arrow type. */
+  @property({attribute: false})
+  cellRenderers: CellRenderers = {};
+
+  /** Name of the table the rows come from, used to copy them as `INSERT`s. */
+  @property({type: String})
+  tableName: string | null = null;
+
+  /** Number of extra rows rendered above and below the visible ones. */
+  @property({type: Number})
+  overscan = 10;
+
+  @state()
+  private viewportScrollTop = 0;
+
+  @state()
+  private viewportHeight = 0;
+
+  @state()
+  private measuredRowHeight = ESTIMATED_ROW_HEIGHT;
+
+  @state()
+  private expandedCell: {
+    column: string;
+    type: DataType;
+    rowIndex: number;
+    value: unknown;
+  } | null = null;
+
+  /** The cell being edited, identified by its row key or inserted row id. */
+  @state()
+  private editingCell: {rowKey: string; column: string} | null = null;
+
+  /** The column being resized, with its current width. */
+  @state()
+  private resizing: {column: string; width: number} | null = null;
+
+  /** The header a column is dragged over, to be moved there. */
+  @state()
+  private dropColumn: string | null = null;
+
+  @state()
+  private showColumnChooser = false;
+
+  /** The column whose header is dragged. */
+  private draggedColumn: string | null = null;
+
+  /** Inline styles setting the width and offset of the columns. */
+  private columnStyles = new Map<string, string>();
+
+  private pinnedColumns = new Set<string>();
+
+  /** The rightmost pinned column, which is set apart from the others. */
+  private lastPinnedColumn: string | null = null;
+
+  /** Keys of the collapsed groups, see `getGroupKey`. */
+  @state()
+  private collapsedGroups = new Set<string>();
+
+  /** The selected cells: those between the anchor and the focused cell. */
+  @state()
+  private selection: {anchor: CellPosition; focus: CellPosition} | null = null;
+
+  /** The open context menu, with its position and the cell it is about. */
+  @state()
+  private contextMenu: {x: number; y: number; cell: CellPosition} | null = null;
+
+  /** Outcome of the last copy, displayed for a moment. */
+  @state()
+  private copyStatus: string | null = null;
+
+  private copyStatusTimeout?: ReturnType<typeof setTimeout>;
+
+  /** Names of the displayed columns, in order. */
+  private visibleColumns: string[] = [];
+
+  private selectedRange: SelectedRange | null = null;
+
+  /** Whether the focused cell is scrolled into view once rendered. */
+  private scrollToFocus = false;
+
+  /** Column whose text filter is focused while its options are requested. */
+  private filterOptionsFocus: string | null = null;
+
+  @query('.viewport')
+  private viewport?: HTMLElement;
+
+  @query('table')
+  private grid?: HTMLTableElement;
+
+  @query('.context-menu')
+  private contextMenuElement?: HTMLElement;
+
+  @query('.cell-editor input, .cell-editor select')
+  private cellEditorInput?: HTMLInputElement | HTMLSelectElement;
+
+  private resizeObserver = new ResizeObserver((entries) => {
+    for (const entry of entries) {
+      this.viewportHeight = entry.contentRect.height;
     }
+  });
 
-    if (value instanceof Date) {
-      return value.toLocaleString();
+  private observedViewport?: HTMLElement;
+
+  /** Row indexes in display order, or null when rows are displayed as is. */
+  private rowOrder: number[] | null = null;
+
+  private get effectiveRowHeight() {
+    return this.rowHeight ?? this.measuredRowHeight;
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.resizeObserver.disconnect();
+    this.observedViewport = undefined;
+    clearTimeout(this.copyStatusTimeout);
+  }
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    super.willUpdate(changedProperties);
+    if (changedProperties.has('rowGroups')) {
+      this.collapsedGroups = new Set();
+    }
+    if (
+      changedProperties.has('table') &&
+      !isAppendedTo(this.table, changedProperties.get('table') as Table | null)
+    ) {
+      this.expandedCell = null;
+      this.editingCell = null;
+      this.selection = null;
+      this.contextMenu = null;
+      if (this.viewport) {
+        this.viewport.scrollTop = 0;
+        this.viewportScrollTop = 0;
+      }
     }
 
-    if (typeof value === 'number') {
-      return value.toLocaleString();
+    if (
+      changedProperties.has('table') ||
+      changedProperties.has('sort') ||
+      changedProperties.has('sortMode') ||
+      changedProperties.has('filters') ||
+      changedProperties.has('filterMode') ||
+      changedProperties.has('rowGroups') ||
+      changedProperties.has('collapsedGroups')
+    ) {
+      this.rowOrder = this.table ? this.computeRowOrder(this.table) : null;
     }
 
-    return String(value);
+    // Selected rows are identified by their position, which these change
+    if (
+      changedProperties.has('sort') ||
+      changedProperties.has('filters') ||
+      changedProperties.has('rowGroups') ||
+      changedProperties.has('collapsedGroups')
+    ) {
+      this.selection = null;
+      this.contextMenu = null;
+    }
   }
 
-  private getCellClass(value: unknown): string {
-    if (value === null || value === undefined) {
-      return 'cell-null';
+  override updated(changedProperties: Map<string, unknown>) {
+    super.updated(changedProperties);
+
+    if (changedProperties.has('editingCell') && this.editingCell) {
+      this.cellEditorInput?.focus();
+    }
+
+    // Keep the focus on the filter when its pick-list replaces the text input
+    const focusColumn = this.filterOptionsFocus;
+    if (
+      changedProperties.has('filterOptions') &&
+      focusColumn !== null &&
+      this.filterOptions[focusColumn]
+    ) {
+      this.filterOptionsFocus = null;
+      [
+        ...this.renderRoot.querySelectorAll<HTMLSelectElement>(
+          '.filter-options'
+        ),
+      ]
+        .find((select) => select.dataset.column === focusColumn)
+        ?.focus();
+    }
+
+    if (changedProperties.has('contextMenu') && this.contextMenu) {
+      this.contextMenuElement
+        ?.querySelector<HTMLElement>('[role="menuitem"]')
+        ?.focus();
+    }
+
+    if (this.scrollToFocus && this.selection) {
+      this.scrollToFocus = false;
+      this.scrollCellIntoView(this.selection.focus);
+    }
+
+    // Show the rows added at the end of the table
+    const previousChangeset = changedProperties.get('changeset') as
+      | Changeset
+      | undefined;
+    if (
+      previousChangeset &&
+      this.changeset.inserts.length > previousChangeset.inserts.length &&
+      this.viewport
+    ) {
+      this.viewport.scrollTop = this.viewport.scrollHeight;
+    }
+
+    if (this.viewport !== this.observedViewport) {
+      this.resizeObserver.disconnect();
+      if (this.viewport) {
+        this.resizeObserver.observe(this.viewport);
+      }
+      this.observedViewport = this.viewport;
+    }
+
+    if (this.rowHeight === null) {
+      const firstRow =
+        this.renderRoot.querySelector<HTMLElement>('tr.data-row');
+      const height = firstRow?.getBoundingClientRect().height;
+      if (height && Math.abs(height - this.measuredRowHeight) > 0.5) {
+        this.measuredRowHeight = height;
+      }
+    }
+  }
+
+  private computeRowOrder(table: Table): number[] | null {
+    let rowOrder: number[] | undefined;
+    if (this.filterMode === 'client' && this.filters.length > 0) {
+      rowOrder = filterRowIndexes(table, this.filters);
+    }
+    if (this.sortMode === 'client' && this.sort.length > 0) {
+      rowOrder = sortRowIndexes(table, this.sort, rowOrder);
+    }
+    if (this.rowGroups && this.collapsedGroups.size > 0) {
+      rowOrder = (
+        rowOrder ?? Array.from({length: table.numRows}, (_, i) => i)
+      ).filter((index) => !this.isInCollapsedGroup(table, index));
+    }
+    return rowOrder ?? null;
+  }
+
+  /** Depth of a row within `rowGroups`, or null when rows are not grouped. */
+  private getRowDepth(table: Table, sourceIndex: number): number | null {
+    const vector = this.rowGroups
+      ? table.getChild(this.rowGroups.depthColumn)
+      : null;
+    return vector ? Number(getArrowValue(vector, sourceIndex)) : null;
+  }
+
+  /** Identifies a group by the values of the first `depth` group columns. */
+  private getGroupKey(table: Table, sourceIndex: number, depth: number) {
+    return JSON.stringify(
+      (this.rowGroups?.columns ?? []).slice(0, depth).map((column) => {
+        const vector = table.getChild(column);
+        const value = vector ? getArrowValue(vector, sourceIndex) : null;
+        return value === null ? null : String(value);
+      })
+    );
+  }
+
+  private isInCollapsedGroup(table: Table, sourceIndex: number) {
+    const depth = this.getRowDepth(table, sourceIndex) ?? 0;
+    for (let i = 1; i < depth; i++) {
+      if (this.collapsedGroups.has(this.getGroupKey(table, sourceIndex, i))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private toggleGroup(groupKey: string) {
+    const collapsedGroups = new Set(this.collapsedGroups);
+    if (collapsedGroups.has(groupKey)) {
+      collapsedGroups.delete(groupKey);
+    } else {
+      collapsedGroups.add(groupKey);
+    }
+    this.collapsedGroups = collapsedGroups;
+  }
+
+  /**
+   * Renders a group column of a subtotal row: the column it is grouped by
+   * holds the toggle, the following ones are left empty.
+   */
+  private renderGroupCell(
+    column: {name: string; type: DataType},
+    value: unknown,
+    rowIndex: number,
+    depth: number,
+    groupKey: string
+  ) {
+    const groupIndex = this.rowGroups?.columns.indexOf(column.name) ?? -1;
+    if (groupIndex < depth - 1) {
+      return this.renderCell(column, value, rowIndex);
+    }
+    if (groupIndex >= depth) {
+      return html`<td
+        id=${this.getCellId(rowIndex, column.name)}
+        class="${this.getPinnedClass(column.name)} ${this.getSelectionClass(
+          rowIndex,
+          column.name
+        )}"
+        style=${this.getColumnStyle(column.name)}
+        aria-selected=${this.isCellSelected(rowIndex, column.name)
+          ? 'true'
+          : 'false'}
+      >
+        ${depth === 0 && groupIndex === 0 ? 'Total' : ''}
+      </td>`;
+    }
+
+    const text = this.formatCellValue(value, column.type);
+    const isCollapsed = this.collapsedGroups.has(groupKey);
+    return html`<td
+      id=${this.getCellId(rowIndex, column.name)}
+      class="${this.getPinnedClass(column.name)} ${this.getSelectionClass(
+        rowIndex,
+        column.name
+      )}"
+      style=${this.getColumnStyle(column.name)}
+      title=${text}
+      aria-selected=${this.isCellSelected(rowIndex, column.name)
+        ? 'true'
+        : 'false'}
+    >
+      <button
+        class="group-toggle"
+        aria-expanded=${isCollapsed ? 'false' : 'true'}
+        aria-label=${isCollapsed ? 'Expand group' : 'Collapse group'}
+        @click=${() => this.toggleGroup(groupKey)}
+      >
+        ${isCollapsed ? '▸' : '▾'}</button
+      >${text}
+    </td>`;
+  }
+
+  private updateFilter(
+    column: string,
+    kind: ColumnFilterKind,
+    filter: ColumnFilter | null
+  ) {
+    this.filters = setColumnFilter(this.filters, column, kind, filter);
+    this.dispatchEvent(
+      new CustomEvent('filter-changed', {
+        detail: {filters: this.filters},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private requestFilterOptions(column: string) {
+    if (column in this.filterOptions) {
+      return;
+    }
+    this.filterOptionsFocus = column;
+    this.dispatchEvent(
+      new CustomEvent('filter-options-requested', {
+        detail: {column},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private renderFilterInput(field: Field) {
+    const column = field.name;
+
+    // Exact values, set from a cell, are shown until cleared
+    const equals = getColumnFilter(this.filters, column, 'equals');
+    if (equals) {
+      return html`
+        <input
+          type="text"
+          readonly
+          aria-label="Filter ${column}"
+          title=${equals.value}
+          .value=${`= ${equals.value}`}
+        />
+        <button
+          class="filter-clear"
+          title="Clear the filter"
+          aria-label="Clear the filter of ${column}"
+          @click=${() => this.updateFilter(column, 'equals', null)}
+        >
+          ✕
+        </button>
+      `;
     }
 
-    if (value instanceof Date) {
-      return 'cell-date';
+    const selected = getColumnFilter(this.filters, column, 'enum');
+    // Filters set before the options are loaded list their own values
+    const options = this.filterOptions[column] ?? selected?.values;
+
+    // A text filter set before the options were loaded stays editable
+    if (options && !getColumnFilter(this.filters, column, 'text')) {
+      return html`<select
+        class="filter-options"
+        data-column=${column}
+        aria-label="Filter ${column}"
+        @focus=${() => this.requestFilterOptions(column)}
+        @blur=${() => (this.filterOptionsFocus = null)}
+        @change=${(e: Event) => {
+          const value = (e.target as HTMLSelectElement).value;
+          this.updateFilter(column, 'enum', {
+            column,
+            kind: 'enum',
+            values: value ? [value] : [],
+          });
+        }}
+      >
+        <option value="" ?selected=${!selected}>All</option>
+        ${options.map(
+          (option) =>
+            html`<option
+              value=${option}
+              ?selected=${selected?.values.includes(option) ?? false}
+            >
+              ${option}
+            </option>`
+        )}
+      </select>`;
+    }
+
+    if (DataType.isUtf8(field.type)) {
+      const current = getColumnFilter(this.filters, column, 'text');
+      const operator = current?.operator ?? 'contains';
+      return html`
+        <input
+          type="text"
+          aria-label="Filter ${column}"
+          placeholder=${operator === 'regex' ? 'Regex…' : 'Contains…'}
+          .value=${current?.value ?? ''}
+          @focus=${() => this.requestFilterOptions(column)}
+          @blur=${() => (this.filterOptionsFocus = null)}
+          @change=${(e: Event) =>
+            this.updateFilter(column, 'text', {
+              column,
+              kind: 'text',
+              operator,
+              value: (e.target as HTMLInputElement).value,
+            })}
+        />
+        <button
+          class="regex-toggle"
+          title="Match as regular expression"
+          aria-pressed=${operator === 'regex' ? 'true' : 'false'}
+          @click=${() =>
+            this.updateFilter(column, 'text', {
+              column,
+              kind: 'text',
+              operator: operator === 'regex' ? 'contains' : 'regex',
+              value: current?.value ?? '',
+            })}
+        >
+          .*
+        </button>
+      `;
     }
 
-    if (typeof value === 'number') {
-      return 'cell-number';
+    if (
+      DataType.isInt(field.type) ||
+      DataType.isFloat(field.type) ||
+      DataType.isDecimal(field.type)
+    ) {
+      const current = getColumnFilter(this.filters, column, 'range');
+      const update = (bound: 'min' | 'max', e: Event) => {
+        const value = (e.target as HTMLInputElement).value;
+        this.updateFilter(column, 'range', {
+          column,
+          kind: 'range',
+          min: current?.min ?? null,
+          max: current?.max ?? null,
+          [bound]: value === '' ? null : Number(value),
+        });
+      };
+      return html`
+        <input
+          type="number"
+          aria-label="Minimum ${column}"
+          placeholder="Min"
+          .value=${current?.min?.toString() ?? ''}
+          @change=${(e: Event) => update('min', e)}
+        />
+        <input
+          type="number"
+          aria-label="Maximum ${column}"
+          placeholder="Max"
+          .value=${current?.max?.toString() ?? ''}
+          @change=${(e: Event) => update('max', e)}
+        />
+      `;
+    }
+
+    if (DataType.isDate(field.type) || DataType.isTimestamp(field.type)) {
+      const current = getColumnFilter(this.filters, column, 'date-range');
+      const update = (bound: 'from' | 'to', e: Event) => {
+        const value = (e.target as HTMLInputElement).value;
+        this.updateFilter(column, 'date-range', {
+          column,
+          kind: 'date-range',
+          from: current?.from ?? null,
+          to: current?.to ?? null,
+          [bound]: value || null,
+        });
+      };
+      return html`
+        <input
+          type="date"
+          aria-label="${column} from"
+          .value=${current?.from ?? ''}
+          @change=${(e: Event) => update('from', e)}
+        />
+        <input
+          type="date"
+          aria-label="${column} to"
+          .value=${current?.to ?? ''}
+          @change=${(e: Event) => update('to', e)}
+        />
+      `;
     }
 
     return '';
   }
 
+  private renderFilterCell(field: Field) {
+    const column = field.name;
+    const nullFilter = getColumnFilter(this.filters, column, 'null');
+
+    return html`<th
+      class=${this.getPinnedClass(column)}
+      style=${this.getColumnStyle(column)}
+    >
+      <div class="filter-inputs">
+        ${this.renderFilterInput(field)}
+        <select
+          class="filter-null"
+          title="Null values"
+          aria-label="Null values of ${column}"
+          @change=${(e: Event) => {
+            const value = (e.target as HTMLSelectElement).value;
+            this.updateFilter(
+              column,
+              'null',
+              value ? {column, kind: 'null', isNull: value === 'null'} : null
+            );
+          }}
+        >
+          <option value="" ?selected=${!nullFilter}>Any</option>
+          <option value="null" ?selected=${nullFilter?.isNull === true}>
+            Only NULL
+          </option>
+          <option value="not-null" ?selected=${nullFilter?.isNull === false}>
+            Not NULL
+          </option>
+        </select>
+      </div>
+    </th>`;
+  }
+
+  private flattenExpandedColumn() {
+    if (!this.expandedCell) {
+      return;
+    }
+
+    const {column, type} = this.expandedCell;
+    const kind: FlattenedColumn['kind'] = DataType.isStruct(type)
+      ? 'struct'
+      : DataType.isMap(type)
+      ? 'map'
+      : 'list';
+    this.expandedCell = null;
+    this.dispatchEvent(
+      new CustomEvent<FlattenedColumn>('flatten-column', {
+        detail: {column, kind},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private renderNestedPanel() {
+    if (!this.expandedCell) {
+      return '';
+    }
+
+    const {column, type, rowIndex, value} = this.expandedCell;
+    const canFlatten =
+      this.flattenable &&
+      (DataType.isStruct(type) ||
+        DataType.isList(type) ||
+        DataType.isFixedSizeList(type) ||
+        DataType.isMap(type));
+
+    return html`
+      <aside class="nested-panel" part="nested-panel">
+        <div class="nested-panel-header">
+          <span title=${column}
+            >${column} · row ${this.rowOffset + rowIndex + 1}</span
+          >
+          ${canFlatten
+            ? html`<button @click=${this.flattenExpandedColumn}>
+                Flatten to columns
+              </button>`
+            : ''}
+          <button aria-label="Close" @click=${() => (this.expandedCell = null)}>
+            ×
+          </button>
+        </div>
+        <duckdb-grid-value-viewer
+          .value=${value}
+          .type=${type}
+          expandDepth="2"
+          .formatOptions=${this.formatOptions}
+        ></duckdb-grid-value-viewer>
+      </aside>
+    `;
+  }
+
+  private renderCell(
+    column: {name: string; type: DataType},
+    value: unknown,
+    rowIndex: number
+  ) {
+    const text = this.formatCellValue(value, column.type);
+    // Nested values with a renderer of their own are not previewed
+    const isNested =
+      value !== null &&
+      value !== undefined &&
+      getArrowTypeCategory(column.type) === 'nested' &&
+      !getCellRenderer(this.cellRenderers, column.name, column.type);
+
+    return html`
+      <td
+        id=${this.getCellId(rowIndex, column.name)}
+        class="${this.getCellClass(value, column.type)} ${this.getPinnedClass(
+          column.name
+        )} ${this.getSelectionClass(rowIndex, column.name)}"
+        style=${this.getColumnStyle(column.name)}
+        title="${text}"
+        aria-selected=${this.isCellSelected(rowIndex, column.name)
+          ? 'true'
+          : 'false'}
+      >
+        ${isNested
+          ? html`<button
+              class="nested-preview"
+              @click=${() =>
+                (this.expandedCell = {
+                  column: column.name,
+                  type: column.type,
+                  rowIndex,
+                  value,
+                })}
+            >
+              ${formatNestedPreview(value)}
+            </button>`
+          : this.renderCellContent(column, value, text)}
+      </td>
+    `;
+  }
+
+  /** Identifies a row by the text of its primary key values. */
+  private getRowKeyAt(table: Table, sourceIndex: number): string | null {
+    if (!this.editable || this.primaryKey.length === 0) {
+      return null;
+    }
+    try {
+      return getRowKey(
+        this.primaryKey.map((column) => {
+          const vector = table.getChild(column);
+          return toCellText(vector ? getArrowValue(vector, sourceIndex) : null);
+        })
+      );
+    } catch {
+      // Rows keyed by nested or binary values cannot be edited
+      return null;
+    }
+  }
+
+  private isEditableType(type: DataType) {
+    return (
+      getArrowTypeCategory(type) !== 'nested' &&
+      !DataType.isBinary(type) &&
+      !DataType.isInterval(type)
+    );
+  }
+
+  private dispatchEditEvent(type: string, detail: Record<string, unknown>) {
+    this.dispatchEvent(
+      new CustomEvent(type, {detail, bubbles: true, composed: true})
+    );
+  }
+
+  private commitEdit(
+    rowKey: string,
+    inserted: boolean,
+    column: string,
+    value: CellText,
+    original: CellText
+  ) {
+    if (
+      this.editingCell?.rowKey !== rowKey ||
+      this.editingCell.column !== column
+    ) {
+      return;
+    }
+    this.editingCell = null;
+    this.dispatchEditEvent('cell-edited', {
+      rowKey,
+      inserted,
+      column,
+      value,
+      original,
+    });
+  }
+
+  /** Renders an input matching the type of a column. */
+  private renderCellEditor(
+    column: {name: string; type: DataType},
+    text: CellText,
+    commit: (value: CellText) => void
+  ) {
+    const isText = DataType.isUtf8(column.type);
+    const readValue = (target: HTMLInputElement | HTMLSelectElement) =>
+      target.value === '' && !isText ? null : target.value;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        commit(readValue(e.target as HTMLInputElement));
+        this.grid?.focus();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        this.editingCell = null;
+        this.grid?.focus();
+      }
+    };
+    const onBlur = (e: FocusEvent) =>
+      commit(readValue(e.target as HTMLInputElement));
+
+    return html`<div class="cell-editor">
+      ${DataType.isBool(column.type)
+        ? html`<select
+            aria-label="Value of ${column.name}"
+            @keydown=${onKeyDown}
+            @blur=${onBlur}
+          >
+            <option value="" ?selected=${text === null}>NULL</option>
+            <option value="true" ?selected=${text === 'true'}>true</option>
+            <option value="false" ?selected=${text === 'false'}>false</option>
+          </select>`
+        : html`<input
+            type=${DataType.isDate(column.type) ? 'date' : 'text'}
+            inputmode=${getArrowTypeCategory(column.type) === 'number'
+              ? 'decimal'
+              : 'text'}
+            aria-label="Value of ${column.name}"
+            placeholder=${text === null ? 'NULL' : ''}
+            .value=${text ?? ''}
+            @keydown=${onKeyDown}
+            @blur=${onBlur}
+          />`}
+      <button
+        title="Set to NULL"
+        @mousedown=${(e: MouseEvent) => {
+          // Keep the input from committing its value on blur
+          e.preventDefault();
+          commit(null);
+        }}
+      >
+        NULL
+      </button>
+    </div>`;
+  }
+
+  /**
+   * Renders a cell of an editable row, showing its staged value, if any,
+   * and its validation error. Inserted rows have no `rowIndex`.
+   */
+  private renderEditableCell(
+    column: {name: string; type: DataType},
+    rowKey: string,
+    inserted: boolean,
+    value: unknown,
+    rowIndex: number | null
+  ) {
+    const staged = inserted
+      ? this.changeset.inserts.find(({id}) => id === rowKey)?.values
+      : this.changeset.updates[rowKey];
+    const isStaged = staged !== undefined && column.name in staged;
+    const original = inserted ? null : toCellText(value);
+    const text = isStaged ? staged[column.name] : original;
+    const error = this.cellErrors[getCellKey(rowKey, column.name)];
+    const isEditing =
+      this.editingCell?.rowKey === rowKey &&
+      this.editingCell.column === column.name;
+    const classes = [
+      text === null ? 'cell-null' : this.getCellClass(text, column.type),
+      isStaged ? 'cell-edited' : '',
+      error ? 'cell-invalid' : '',
+      isEditing ? 'cell-editing' : '',
+      this.getPinnedClass(column.name),
+      rowIndex !== null ? this.getSelectionClass(rowIndex, column.name) : '',
+    ].join(' ');
+
+    return html`<td
+      id=${rowIndex !== null ? this.getCellId(rowIndex, column.name) : ''}
+      class=${classes}
+      style=${this.getColumnStyle(column.name)}
+      title=${error ?? text ?? 'NULL'}
+      aria-selected=${rowIndex !== null &&
+      this.isCellSelected(rowIndex, column.name)
+        ? 'true'
+        : 'false'}
+      @dblclick=${() => (this.editingCell = {rowKey, column: column.name})}
+    >
+      ${isEditing
+        ? this.renderCellEditor(column, text, (newValue) =>
+            this.commitEdit(rowKey, inserted, column.name, newValue, original)
+          )
+        : inserted && !isStaged
+        ? html`<span class="cell-null">DEFAULT</span>`
+        : text === null
+        ? 'NULL'
+        : isStaged
+        ? text
+        : this.renderCellContent(
+            column,
+            value,
+            this.formatCellValue(value, column.type)
+          )}
+    </td>`;
+  }
+
+  private renderRowActions(rowKey: string | null, inserted: boolean) {
+    if (!this.editable) {
+      return '';
+    }
+
+    const error = rowKey !== null ? this.rowErrors[rowKey] : undefined;
+    return html`<td
+      class="row-actions ${error ? 'row-error' : ''} ${this.pinnedColumns.size >
+      0
+        ? 'pinned'
+        : ''}"
+      style=${this.pinnedColumns.size > 0 ? 'left: 0' : ''}
+      title=${error ?? ''}
+    >
+      ${rowKey === null
+        ? ''
+        : inserted
+        ? html`<button
+            title="Remove the new row"
+            aria-label="Remove the new row"
+            @click=${() =>
+              this.dispatchEditEvent('inserted-row-removed', {id: rowKey})}
+          >
+            ✕
+          </button>`
+        : this.changeset.deletes.includes(rowKey)
+        ? html`<button
+            title="Restore the row"
+            aria-label="Restore the row"
+            @click=${() =>
+              this.dispatchEditEvent('row-delete-toggled', {rowKey})}
+          >
+            ↺
+          </button>`
+        : html`<button
+            title="Delete the row"
+            aria-label="Delete the row"
+            @click=${() =>
+              this.dispatchEditEvent('row-delete-toggled', {rowKey})}
+          >
+            ✕
+          </button>`}
+    </td>`;
+  }
+
+  private renderInsertedRows(columns: {name: string; type: DataType}[]) {
+    if (!this.editable) {
+      return '';
+    }
+
+    return this.changeset.inserts.map(
+      ({id}) => html`<tr class="data-row row-inserted">
+        ${this.renderRowActions(id, true)}
+        ${columns.map((column) =>
+          this.isEditableType(column.type)
+            ? this.renderEditableCell(column, id, true, null, null)
+            : html`<td
+                class="cell-null ${this.getPinnedClass(column.name)}"
+                style=${this.getColumnStyle(column.name)}
+              >
+                DEFAULT
+              </td>`
+        )}
+      </tr>`
+    );
+  }
+
+  private getColumnStyle(column: string) {
+    return this.columnStyles.get(column) ?? '';
+  }
+
+  private getPinnedClass(column: string) {
+    return this.pinnedColumns.has(column)
+      ? `pinned ${column === this.lastPinnedColumn ? 'last-pinned' : ''}`
+      : '';
+  }
+
+  /**
+   * Computes the inline styles of the columns: their width, and the offset of
+   * the pinned ones, which are given a default width so that the offsets of
+   * the following ones are known.
+   */
+  private computeColumnStyles(layouts: ColumnLayout[]) {
+    this.columnStyles = new Map();
+    this.pinnedColumns = new Set();
+    this.lastPinnedColumn = null;
+    let left = this.editable ? ROW_ACTIONS_WIDTH : 0;
+    for (const {name, width, hidden, pinned} of layouts) {
+      if (hidden) {
+        continue;
+      }
+      const effectiveWidth =
+        this.resizing?.column === name
+          ? this.resizing.width
+          : width ?? (pinned ? DEFAULT_PINNED_WIDTH : null);
+      const rules =
+        effectiveWidth !== null
+          ? [
+              'box-sizing: border-box',
+              `width: ${effectiveWidth}px`,
+              `min-width: ${effectiveWidth}px`,
+              `max-width: ${effectiveWidth}px`,
+            ]
+          : [];
+      if (pinned) {
+        rules.push(`left: ${left}px`);
+        left += effectiveWidth ?? 0;
+        this.pinnedColumns.add(name);
+        this.lastPinnedColumn = name;
+      }
+      this.columnStyles.set(name, rules.join('; '));
+    }
+  }
+
+  private updateColumnState(columnState: ColumnState) {
+    this.columnState = columnState;
+    this.dispatchEvent(
+      new CustomEvent('column-state-changed', {
+        detail: {columnState},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private startResize(e: PointerEvent, column: string, names: string[]) {
+    e.preventDefault();
+    e.stopPropagation();
+    const handle = e.target as HTMLElement;
+    const startX = e.clientX;
+    const startWidth =
+      handle.parentElement?.getBoundingClientRect().width ??
+      DEFAULT_PINNED_WIDTH;
+    this.resizing = {column, width: Math.round(startWidth)};
+    handle.setPointerCapture(e.pointerId);
+
+    const onMove = (moveEvent: PointerEvent) => {
+      this.resizing = {
+        column,
+        width: Math.max(
+          MIN_COLUMN_WIDTH,
+          Math.round(startWidth + moveEvent.clientX - startX)
+        ),
+      };
+    };
+    const onUp = () => {
+      handle.removeEventListener('pointermove', onMove);
+      handle.removeEventListener('pointerup', onUp);
+      handle.removeEventListener('pointercancel', onUp);
+      const width = this.resizing?.width ?? null;
+      this.resizing = null;
+      this.updateColumnState(
+        updateColumnLayout(this.columnState, names, column, {width})
+      );
+    };
+    handle.addEventListener('pointermove', onMove);
+    handle.addEventListener('pointerup', onUp);
+    handle.addEventListener('pointercancel', onUp);
+  }
+
+  private handleHeaderDrop(e: DragEvent, column: string, names: string[]) {
+    e.preventDefault();
+    const dragged = this.draggedColumn;
+    this.draggedColumn = null;
+    this.dropColumn = null;
+    if (dragged && dragged !== column) {
+      this.updateColumnState(
+        moveColumnLayout(this.columnState, names, dragged, column)
+      );
+    }
+  }
+
+  private renderHeaderCell(column: {name: string}, names: string[]) {
+    const direction = this.sort.find(
+      (s) => s.column === column.name
+    )?.direction;
+    return html`<th
+      class="${this.getPinnedClass(column.name)} ${this.dropColumn ===
+      column.name
+        ? 'drag-over'
+        : ''}"
+      style=${this.getColumnStyle(column.name)}
+      title="${column.name}"
+      draggable="true"
+      aria-sort=${direction === 'asc'
+        ? 'ascending'
+        : direction === 'desc'
+        ? 'descending'
+        : 'none'}
+      @click=${(e: MouseEvent) => this.handleHeaderClick(e, column.name)}
+      @dragstart=${(e: DragEvent) => {
+        if (this.resizing) {
+          e.preventDefault();
+          return;
+        }
+        this.draggedColumn = column.name;
+        e.dataTransfer?.setData('text/plain', column.name);
+      }}
+      @dragover=${(e: DragEvent) => {
+        if (this.draggedColumn) {
+          e.preventDefault();
+          this.dropColumn = column.name;
+        }
+      }}
+      @dragleave=${() => (this.dropColumn = null)}
+      @drop=${(e: DragEvent) => this.handleHeaderDrop(e, column.name, names)}
+      @dragend=${() => {
+        this.draggedColumn = null;
+        this.dropColumn = null;
+      }}
+    >
+      ${column.name}${this.renderSortIndicator(column.name)}
+      <span
+        class="resize-handle"
+        title="Drag to resize, double-click to fit the content"
+        @pointerdown=${(e: PointerEvent) =>
+          this.startResize(e, column.name, names)}
+        @click=${(e: MouseEvent) => e.stopPropagation()}
+        @dblclick=${(e: MouseEvent) => {
+          e.stopPropagation();
+          this.updateColumnState(
+            updateColumnLayout(this.columnState, names, column.name, {
+              width: null,
+            })
+          );
+        }}
+      ></span>
+    </th>`;
+  }
+
+  private renderColumnChooser(layouts: ColumnLayout[], names: string[]) {
+    const visibleCount = layouts.filter(({hidden}) => !hidden).length;
+    return html`<ul class="column-chooser" part="column-chooser">
+      ${layouts.map(
+        ({name, hidden, pinned, width}) => html`<li>
+          <label>
+            <input
+              type="checkbox"
+              .checked=${!hidden}
+              ?disabled=${!hidden && visibleCount === 1}
+              @change=${(e: Event) =>
+                this.updateColumnState(
+                  updateColumnLayout(this.columnState, names, name, {
+                    hidden: !(e.target as HTMLInputElement).checked,
+                  })
+                )}
+            />
+            ${name}
+          </label>
+          <button
+            class="pin-toggle"
+            aria-pressed=${pinned ? 'true' : 'false'}
+            aria-label="Pin ${name}"
+            @click=${() => {
+              // Pinned columns keep their current width
+              const header = [
+                ...this.renderRoot.querySelectorAll<HTMLElement>('thead th'),
+              ].find((th) => th.title === name);
+              this.updateColumnState(
+                updateColumnLayout(this.columnState, names, name, {
+                  pinned: !pinned,
+                  width:
+                    width ??
+                    (header && !pinned
+                      ? Math.round(header.getBoundingClientRect().width)
+                      : null),
+                })
+              );
+            }}
+          >
+            Pin
+          </button>
+        </li>`
+      )}
+      <li>
+        <button class="pin-toggle" @click=${() => this.updateColumnState([])}>
+          Reset layout
+        </button>
+      </li>
+    </ul>`;
+  }
+
+  private handleHeaderClick(e: MouseEvent, column: string) {
+    this.sort = toggleSort(this.sort, column, e.shiftKey);
+    this.dispatchEvent(
+      new CustomEvent('sort-changed', {
+        detail: {sort: this.sort},
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private renderSortIndicator(column: string) {
+    const index = this.sort.findIndex((s) => s.column === column);
+    if (index === -1) {
+      return '';
+    }
+
+    return html`<span class="sort-indicator"
+      >${this.sort[index].direction === 'asc' ? '▲' : '▼'}${this.sort.length > 1
+        ? index + 1
+        : ''}</span
+    >`;
+  }
+
+  private getCellId(rowIndex: number, column: string) {
+    return `cell-${rowIndex}-${this.visibleColumns.indexOf(column)}`;
+  }
+
+  private getSelectedRange(): SelectedRange | null {
+    if (!this.selection) {
+      return null;
+    }
+    const {anchor, focus} = this.selection;
+    const anchorColumn = this.visibleColumns.indexOf(anchor.column);
+    const focusColumn = this.visibleColumns.indexOf(focus.column);
+    if (anchorColumn === -1 || focusColumn === -1) {
+      return null;
+    }
+    return {
+      firstRow: Math.min(anchor.row, focus.row),
+      lastRow: Math.max(anchor.row, focus.row),
+      columns: this.visibleColumns.slice(
+        Math.min(anchorColumn, focusColumn),
+        Math.max(anchorColumn, focusColumn) + 1
+      ),
+    };
+  }
+
+  private isCellSelected(rowIndex: number, column: string) {
+    const range = this.selectedRange;
+    return (
+      range !== null &&
+      rowIndex >= range.firstRow &&
+      rowIndex <= range.lastRow &&
+      range.columns.includes(column)
+    );
+  }
+
+  private getSelectionClass(rowIndex: number, column: string) {
+    if (!this.isCellSelected(rowIndex, column)) {
+      return '';
+    }
+    const focus = this.selection?.focus;
+    return focus?.row === rowIndex && focus.column === column
+      ? 'cell-selected cell-active'
+      : 'cell-selected';
+  }
+
+  /** The cell of an event, found from the row and position of its `td`. */
+  private getEventCell(e: Event): CellPosition | null {
+    const cell = (e.target as HTMLElement).closest('td');
+    const row = cell?.parentElement?.dataset.row;
+    if (!cell || row === undefined) {
+      return null;
+    }
+    const column =
+      this.visibleColumns[cell.cellIndex - (this.editable ? 1 : 0)];
+    return column !== undefined ? {row: Number(row), column} : null;
+  }
+
+  private handleCellMouseDown(e: MouseEvent) {
+    const cell = this.getEventCell(e);
+    if (
+      !cell ||
+      e.button !== 0 ||
+      (e.target as HTMLElement).closest('input, select')
+    ) {
+      return;
+    }
+    if (e.shiftKey && this.selection) {
+      // Keep the browser from selecting the text in between
+      e.preventDefault();
+      this.grid?.focus({preventScroll: true});
+      this.selection = {anchor: this.selection.anchor, focus: cell};
+    } else {
+      this.selection = {anchor: cell, focus: cell};
+    }
+  }
+
+  private handleCellContextMenu(e: MouseEvent) {
+    const cell = this.getEventCell(e);
+    if (!cell) {
+      return;
+    }
+    e.preventDefault();
+    if (!this.isCellSelected(cell.row, cell.column)) {
+      this.selection = {anchor: cell, focus: cell};
+    }
+    this.contextMenu = {x: e.clientX, y: e.clientY, cell};
+  }
+
+  private handleGridKeyDown(e: KeyboardEvent) {
+    // Keys typed in the filters, editors and buttons of the cells are theirs
+    const count = this.rowOrder?.length ?? this.table?.numRows ?? 0;
+    const lastColumn = this.visibleColumns.length - 1;
+    if (e.target !== e.currentTarget || count === 0 || lastColumn === -1) {
+      return;
+    }
+
+    const focus = this.selection?.focus ?? {
+      row: 0,
+      column: this.visibleColumns[0],
+    };
+    const isModified = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    if (isModified && key === 'a') {
+      e.preventDefault();
+      this.selection = {
+        anchor: {row: 0, column: this.visibleColumns[0]},
+        focus: {row: count - 1, column: this.visibleColumns[lastColumn]},
+      };
+      return;
+    }
+    if (isModified && key === 'c') {
+      e.preventDefault();
+      this.copySelection('tsv');
+      return;
+    }
+    if (e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10')) {
+      e.preventDefault();
+      this.selection ??= {anchor: focus, focus};
+      const rect = this.renderRoot
+        .querySelector(`#${this.getCellId(focus.row, focus.column)}`)
+        ?.getBoundingClientRect();
+      const gridRect = this.grid?.getBoundingClientRect();
+      this.contextMenu = {
+        x: rect?.left ?? gridRect?.left ?? 0,
+        y: rect?.bottom ?? gridRect?.top ?? 0,
+        cell: focus,
+      };
+      return;
+    }
+    if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      this.openCell(focus);
+      return;
+    }
+    if (e.key === 'Escape') {
+      this.selection = this.selection && {anchor: focus, focus};
+      return;
+    }
+
+    const pageSize = Math.max(
+      1,
+      Math.floor(this.viewportHeight / this.effectiveRowHeight) - 1
+    );
+    let row = focus.row;
+    let column = Math.max(0, this.visibleColumns.indexOf(focus.column));
+    switch (e.key) {
+      case 'ArrowUp':
+        row--;
+        break;
+      case 'ArrowDown':
+        row++;
+        break;
+      case 'ArrowLeft':
+        column--;
+        break;
+      case 'ArrowRight':
+        column++;
+        break;
+      case 'PageUp':
+        row -= pageSize;
+        break;
+      case 'PageDown':
+        row += pageSize;
+        break;
+      case 'Home':
+        column = 0;
+        row = isModified ? 0 : row;
+        break;
+      case 'End':
+        column = lastColumn;
+        row = isModified ? count - 1 : row;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+
+    const cell = {
+      row: Math.min(Math.max(row, 0), count - 1),
+      column: this.visibleColumns[Math.min(Math.max(column, 0), lastColumn)],
+    };
+    this.selection = {
+      anchor: e.shiftKey && this.selection ? this.selection.anchor : cell,
+      focus: cell,
+    };
+    this.scrollToFocus = true;
+  }
+
+  /**
+   * Acts on the focused cell as a double-click or click would: edits it when
+   * it can be, or opens its nested value.
+   */
+  private openCell({row, column}: CellPosition) {
+    const table = this.table;
+    const field = table?.schema.fields.find(({name}) => name === column);
+    if (!table || !field) {
+      return;
+    }
+    const sourceIndex = this.rowOrder?.[row] ?? row;
+    const rowKey = this.getRowKeyAt(table, sourceIndex);
+    if (
+      rowKey !== null &&
+      !this.changeset.deletes.includes(rowKey) &&
+      this.isEditableType(field.type)
+    ) {
+      this.editingCell = {rowKey, column};
+      return;
+    }
+
+    const vector = table.getChild(column);
+    const value = vector ? getArrowValue(vector, sourceIndex) : null;
+    if (value !== null && getArrowTypeCategory(field.type) === 'nested') {
+      this.expandedCell = {column, type: field.type, rowIndex: row, value};
+    }
+  }
+
+  /**
+   * Scrolls the viewport so that a cell is not hidden under the sticky
+   * header or the pinned columns. Rows are positioned from their estimated
+   * height, as the row may not be rendered yet.
+   */
+  private scrollCellIntoView({row, column}: CellPosition) {
+    const viewport = this.viewport;
+    if (!viewport) {
+      return;
+    }
+
+    const headerHeight =
+      this.renderRoot.querySelector('thead')?.getBoundingClientRect().height ??
+      0;
+    const rowHeight = this.effectiveRowHeight;
+    const top = row * rowHeight;
+    const visibleHeight = viewport.clientHeight - headerHeight;
+    if (top < viewport.scrollTop) {
+      viewport.scrollTop = top;
+    } else if (top + rowHeight > viewport.scrollTop + visibleHeight) {
+      viewport.scrollTop = top + rowHeight - visibleHeight;
+    }
+
+    const cell = this.renderRoot.querySelector(
+      `#${this.getCellId(row, column)}`
+    );
+    if (!cell || this.pinnedColumns.has(column)) {
+      return;
+    }
+    const cellRect = cell.getBoundingClientRect();
+    const viewportRect = viewport.getBoundingClientRect();
+    const pinnedRight =
+      cell.parentElement
+        ?.querySelector('td.last-pinned')
+        ?.getBoundingClientRect().right ?? viewportRect.left;
+    const right = viewportRect.left + viewport.clientWidth;
+    if (cellRect.left < pinnedRight) {
+      viewport.scrollLeft -= pinnedRight - cellRect.left;
+    } else if (cellRect.right > right) {
+      viewport.scrollLeft += cellRect.right - right;
+    }
+  }
+
+  /** Reads the values of the selected cells. */
+  private getSelectedCells(): CellRange | null {
+    const table = this.table;
+    const range = this.getSelectedRange();
+    if (!table || !range) {
+      return null;
+    }
+
+    const fields = range.columns.map(
+      (column) => table.schema.fields.find(({name}) => name === column)!
+    );
+    const vectors = range.columns.map((column) => table.getChild(column));
+    const rows: unknown[][] = [];
+    for (let row = range.firstRow; row <= range.lastRow; row++) {
+      const sourceIndex = this.rowOrder?.[row] ?? row;
+      rows.push(
+        vectors.map((vector) =>
+          vector ? getArrowValue(vector, sourceIndex) : null
+        )
+      );
+    }
+    return {columns: fields.map(({name, type}) => ({name, type})), rows};
+  }
+
+  private async copyText(text: string, status: string) {
+    this.closeContextMenu();
+    try {
+      await navigator.clipboard.writeText(text);
+      this.copyStatus = status;
+    } catch {
+      this.copyStatus = 'Could not copy to the clipboard';
+    }
+    clearTimeout(this.copyStatusTimeout);
+    this.copyStatusTimeout = setTimeout(
+      () => (this.copyStatus = null),
+      COPY_STATUS_DURATION
+    );
+  }
+
+  private copySelection(format: CopyFormat) {
+    const cells = this.getSelectedCells();
+    if (!cells) {
+      return;
+    }
+    const count = cells.rows.length * cells.columns.length;
+    void this.copyText(
+      formatCellRange(cells, format, this.tableName ?? undefined),
+      `Copied ${count} cell${count === 1 ? '' : 's'} as ${COPY_FORMATS[format]}`
+    );
+  }
+
+  private closeContextMenu() {
+    if (this.contextMenu) {
+      this.contextMenu = null;
+      this.grid?.focus({preventScroll: true});
+    }
+  }
+
+  private handleContextMenuKeyDown(e: KeyboardEvent) {
+    const items = [
+      ...(this.contextMenuElement?.querySelectorAll<HTMLElement>(
+        '[role="menuitem"]'
+      ) ?? []),
+    ];
+    const index = items.indexOf(e.target as HTMLElement);
+    switch (e.key) {
+      case 'ArrowDown':
+        items[(index + 1) % items.length]?.focus();
+        break;
+      case 'ArrowUp':
+        items[(index - 1 + items.length) % items.length]?.focus();
+        break;
+      case 'Home':
+        items[0]?.focus();
+        break;
+      case 'End':
+        items[items.length - 1]?.focus();
+        break;
+      case 'Escape':
+      case 'Tab':
+        this.closeContextMenu();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+
+  private renderContextMenu(table: Table) {
+    if (!this.contextMenu) {
+      return '';
+    }
+
+    const {x, y, cell} = this.contextMenu;
+    const field = table.schema.fields.find(({name}) => name === cell.column);
+    if (!field) {
+      return '';
+    }
+    const vector = table.getChild(cell.column);
+    const value = vector
+      ? getArrowValue(vector, this.rowOrder?.[cell.row] ?? cell.row)
+      : null;
+    const filter = this.filterable
+      ? getValueFilter(
+          cell.column,
+          field.type,
+          value,
+          this.filterOptions[cell.column]
+        )
+      : null;
+
+    return html`<ul
+      class="context-menu"
+      part="context-menu"
+      role="menu"
+      aria-label="Cell actions"
+      style="left: ${x}px; top: ${y}px"
+      @keydown=${this.handleContextMenuKeyDown}
+      @mousedown=${(e: MouseEvent) => e.preventDefault()}
+      @focusout=${(e: FocusEvent) => {
+        if (!this.contextMenuElement?.contains(e.relatedTarget as Node)) {
+          this.contextMenu = null;
+        }
+      }}
+    >
+      <li role="none">
+        <button
+          role="menuitem"
+          @click=${() =>
+            this.copyText(getCellText(value, field.type) ?? '', 'Copied value')}
+        >
+          Copy value
+        </button>
+      </li>
+      ${(Object.keys(COPY_FORMATS) as CopyFormat[]).map(
+        (format) => html`<li role="none">
+          <button role="menuitem" @click=${() => this.copySelection(format)}>
+            Copy as ${COPY_FORMATS[format]}
+          </button>
+        </li>`
+      )}
+      <li role="none">
+        <button
+          role="menuitem"
+          @click=${() => this.copyText(cell.column, 'Copied column name')}
+        >
+          Copy column name
+        </button>
+      </li>
+      ${filter
+        ? html`<li role="separator"></li>
+            <li role="none">
+              <button
+                role="menuitem"
+                @click=${() => {
+                  this.closeContextMenu();
+                  // The value replaces the other filters of the column, which
+                  // could otherwise exclude it
+                  this.filters = this.filters.filter(
+                    ({column}) => column !== cell.column
+                  );
+                  this.updateFilter(cell.column, filter.kind, filter);
+                }}
+              >
+                Filter by this value
+              </button>
+            </li>`
+        : ''}
+    </ul>`;
+  }
+
+  private handleScroll(e: Event) {
+    this.viewportScrollTop = (e.target as HTMLElement).scrollTop;
+    this.contextMenu = null;
+  }
+
+  private getVisibleRange(rowCount: number): [number, number] {
+    const rowHeight = this.effectiveRowHeight;
+    const viewportHeight = this.viewportHeight || rowHeight * this.overscan;
+    const start = Math.max(
+      0,
+      Math.floor(this.viewportScrollTop / rowHeight) - this.overscan
+    );
+    const end = Math.min(
+      rowCount,
+      Math.ceil((this.viewportScrollTop + viewportHeight) / rowHeight) +
+        this.overscan
+    );
+    return [start, end];
+  }
+
+  private get formatOptions(): FormatOptions {
+    return {
+      locale: this.locale ?? undefined,
+      timeZone: this.timeZone ?? undefined,
+    };
+  }
+
+  private formatCellValue(value: unknown, type: DataType): string {
+    return formatArrowValue(value, type, this.formatOptions);
+  }
+
+  /** Renders a value with the renderer of its column, if any. */
+  private renderCellContent(
+    column: {name: string; type: DataType},
+    value: unknown,
+    text: string
+  ) {
+    const renderer =
+      value === null || value === undefined
+        ? undefined
+        : getCellRenderer(this.cellRenderers, column.name, column.type);
+    return renderer
+      ? renderer({
+          value,
+          column: column.name,
+          type: column.type,
+          text,
+          options: this.formatOptions,
+        })
+      : text;
+  }
+
+  private getCellClass(value: unknown, type: DataType): string {
+    if (value === null || value === undefined) {
+      return 'cell-null';
+    }
+
+    switch (getArrowTypeCategory(type)) {
+      case 'number':
+        return 'cell-number';
+      case 'temporal':
+        return 'cell-date';
+      case 'nested':
+        return 'cell-nested';
+      default:
+        return '';
+    }
+  }
+
   override render() {
     return html`
       <div class="data-container">
         ${!this.table
           ? html`<div class="no-data">No table data available</div>`
-          : (() => {
-              const jsRows = mapArrowTableToJsRows(this.table);
-              const columns = this.table.schema.fields.map(
-                (field) => field.name
-              );
-              const displayedRows = jsRows.length;
-              const totalRows = this.totalRowCount ?? displayedRows;
-              const isTruncated = displayedRows < totalRows;
-
-              return html`
-                <div class="row-count">
-                  ${isTruncated
-                    ? `Showing ${displayedRows} rows out of ${totalRows}`
-                    : `Showing ${displayedRows} row${
-                        displayedRows === 1 ? '' : 's'
-                      }`}
-                </div>
-                <table part="table">
-                  <thead>
-                    <tr>
-                      ${columns.map(
-                        (column) => html`<th title="${column}">${column}</th>`
-                      )}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    ${jsRows.map(
-                      (row) => html`
-                        <tr>
-                          ${columns.map(
-                            (column) => html`
-                              <td
-                                class="${this.getCellClass(row[column])}"
-                                title="${this.formatCellValue(row[column])}"
-                              >
-                                ${this.formatCellValue(row[column])}
-                              </td>
-                            `
-                          )}
-                        </tr>
-                      `
-                    )}
-                  </tbody>
-                </table>
-              `;
-            })()}
+          : this.renderTable(this.table)}
       </div>
       <slot></slot>
     `;
   }
+
+  private renderTable(table: Table) {
+    const depthColumn = this.rowGroups?.depthColumn;
+    const fields = new Map(
+      table.schema.fields.map((field, index) => [
+        field.name,
+        {
+          name: field.name,
+          type: field.type,
+          field,
+          vector: table.getChildAt(index),
+        },
+      ])
+    );
+    const names = [...fields.keys()].filter((name) => name !== depthColumn);
+    const layouts = resolveColumnLayout(names, this.columnState);
+    this.computeColumnStyles(layouts);
+    const columns = layouts
+      .filter(({hidden}) => !hidden)
+      .map(({name}) => fields.get(name)!);
+    this.visibleColumns = columns.map(({name}) => name);
+    this.selectedRange = this.getSelectedRange();
+    const groupCount = this.rowGroups?.columns.length ?? 0;
+    const displayedRows = this.rowOrder?.length ?? table.numRows;
+    const totalRows = this.totalRowCount ?? table.numRows;
+    const isTruncated = displayedRows < totalRows;
+    const firstRow = Math.min(this.rowOffset + 1, totalRows);
+    const lastRow = this.rowOffset + displayedRows;
+
+    const rowHeight = this.effectiveRowHeight;
+    const [start, end] = this.getVisibleRange(displayedRows);
+    const rowIndexes = Array.from({length: end - start}, (_, i) => start + i);
+    const colspan = columns.length + (this.editable ? 1 : 0);
+    const rowActionsClass = this.pinnedColumns.size > 0 ? 'pinned' : '';
+    const rowActionsStyle = this.pinnedColumns.size > 0 ? 'left: 0' : '';
+    const headerRowCount = this.filterable ? 2 : 1;
+    const focus = this.selection?.focus;
+
+    return html`
+      <div class="row-count">
+        ${isTruncated && this.rowOffset > 0
+          ? `Showing rows ${firstRow}–${lastRow} out of ${totalRows}`
+          : isTruncated
+          ? `Showing ${displayedRows} rows out of ${totalRows}`
+          : `Showing ${displayedRows} row${displayedRows === 1 ? '' : 's'}`}
+        ${this.streaming
+          ? html`<span class="streaming">Loading more rows...</span>`
+          : ''}
+        <span class="copy-status" role="status">${this.copyStatus ?? ''}</span>
+        <button
+          class="column-chooser-button"
+          aria-expanded=${this.showColumnChooser ? 'true' : 'false'}
+          @click=${() => (this.showColumnChooser = !this.showColumnChooser)}
+        >
+          Columns
+        </button>
+        ${this.showColumnChooser
+          ? this.renderColumnChooser(layouts, names)
+          : ''}
+      </div>
+      <div class="data-body">
+        <div class="viewport" part="viewport" @scroll=${this.handleScroll}>
+          <table
+            part="table"
+            role="grid"
+            tabindex="0"
+            aria-multiselectable="true"
+            aria-rowcount=${totalRows + headerRowCount}
+            aria-colcount=${colspan}
+            aria-activedescendant=${focus
+              ? this.getCellId(focus.row, focus.column)
+              : ''}
+            @keydown=${this.handleGridKeyDown}
+          >
+            <thead>
+              <tr>
+                ${this.editable
+                  ? html`<th
+                      class="row-actions ${rowActionsClass}"
+                      style=${rowActionsStyle}
+                      aria-label="Row actions"
+                    ></th>`
+                  : ''}
+                ${columns.map((column) => this.renderHeaderCell(column, names))}
+              </tr>
+              ${this.filterable
+                ? html`<tr class="filter-row">
+                    ${this.editable
+                      ? html`<th
+                          class=${rowActionsClass}
+                          style=${rowActionsStyle}
+                        ></th>`
+                      : ''}
+                    ${columns.map(({field}) => this.renderFilterCell(field))}
+                  </tr>`
+                : ''}
+            </thead>
+            <tbody
+              @mousedown=${this.handleCellMouseDown}
+              @contextmenu=${this.handleCellContextMenu}
+            >
+              ${start > 0
+                ? html`<tr
+                    class="spacer"
+                    style="height: ${start * rowHeight}px"
+                    aria-hidden="true"
+                  >
+                    <td colspan=${colspan}></td>
+                  </tr>`
+                : ''}
+              ${rowIndexes.map((rowIndex) => {
+                const sourceIndex = this.rowOrder?.[rowIndex] ?? rowIndex;
+                const rowKey = this.getRowKeyAt(table, sourceIndex);
+                const isDeleted =
+                  rowKey !== null && this.changeset.deletes.includes(rowKey);
+                const depth = this.getRowDepth(table, sourceIndex);
+                const isGroupRow = depth !== null && depth < groupCount;
+                const groupKey = isGroupRow
+                  ? this.getGroupKey(table, sourceIndex, depth)
+                  : '';
+                return html`
+                  <tr
+                    class="data-row ${rowIndex % 2 === 1
+                      ? 'even'
+                      : ''} ${isDeleted ? 'row-deleted' : ''} ${isGroupRow
+                      ? 'group-row'
+                      : ''}"
+                    data-row=${rowIndex}
+                    aria-rowindex=${headerRowCount +
+                    this.rowOffset +
+                    rowIndex +
+                    1}
+                  >
+                    ${this.renderRowActions(rowKey, false)}
+                    ${columns.map((column) => {
+                      const value = column.vector
+                        ? getArrowValue(column.vector, sourceIndex)
+                        : null;
+                      if (
+                        isGroupRow &&
+                        this.rowGroups?.columns.includes(column.name)
+                      ) {
+                        return this.renderGroupCell(
+                          column,
+                          value,
+                          rowIndex,
+                          depth,
+                          groupKey
+                        );
+                      }
+                      return rowKey !== null &&
+                        !isDeleted &&
+                        this.isEditableType(column.type)
+                        ? this.renderEditableCell(
+                            column,
+                            rowKey,
+                            false,
+                            value,
+                            rowIndex
+                          )
+                        : this.renderCell(column, value, rowIndex);
+                    })}
+                  </tr>
+                `;
+              })}
+              ${end < displayedRows
+                ? html`<tr
+                    class="spacer"
+                    style="height: ${(displayedRows - end) * rowHeight}px"
+                    aria-hidden="true"
+                  >
+                    <td colspan=${colspan}></td>
+                  </tr>`
+                : ''}
+              ${this.renderInsertedRows(columns)}
+            </tbody>
+          </table>
+        </div>
+        ${this.renderNestedPanel()}
+      </div>
+      ${this.renderContextMenu(table)}
+    `;
+  }
 }
 
 declare global {
@@ -0,0 +1,420 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {css, html, LitElement, svg} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {quoteIdentifier, quoteQualifiedName, runExclusive} from './sql.js';
+
+/** Number of bins of the histograms of numeric columns. */
+const HISTOGRAM_BIN_COUNT = 10;
+
+/** Number of values listed for non-numeric columns. */
+const TOP_VALUE_COUNT = 5;
+
+const NUMERIC_TYPE_PATTERN =
+  /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT|FLOAT|DOUBLE|DECIMAL)/;
+
+const NESTED_TYPE_PATTERN = /(\[\]|^STRUCT|^MAP|^UNION)/;
+
+interface ColumnProfile {
+  name: string;
+  type: string;
+  min: string | null;
+  max: string | null;
+  approxUnique: number | null;
+  nullPercentage: number | null;
+  mean: string | null;
+  q25: string | null;
+  q50: string | null;
+  q75: string | null;
+  count: number;
+}
+
+type ColumnDistribution =
+  | {kind: 'histogram'; bins: number[]}
+  | {kind: 'top-values'; values: {value: string | null; count: number}[]};
+
+/**
+ * A web component profiling the columns of a DuckDB table with `SUMMARIZE`,
+ * along with a histogram (numeric columns) or the most frequent values
+ * (other columns) of each column.
+ *
+ * @slot - This element has a slot
+ * @csspart table - The table element
+ */
+@customElement('duckdb-grid-table-profile')
+export class DuckDbGridTableProfile extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      border: solid 1px gray;
+      padding: 16px;
+    }
+
+    .profile-container {
+      width: 100%;
+      overflow-x: auto;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      border: 1px solid #ccc;
+    }
+
+    th,
+    td {
+      padding: 8px 12px;
+      text-align: left;
+      border-bottom: 1px solid #ddd;
+      white-space: nowrap;
+      vertical-align: top;
+    }
+
+    th {
+      background-color: #f5f5f5;
+      font-weight: bold;
+      border-bottom: 2px solid #ccc;
+    }
+
+    tr:hover {
+      background-color: #f9f9f9;
+    }
+
+    .cell-number {
+      text-align: right;
+    }
+
+    .cell-null {
+      color: #999;
+      font-style: italic;
+    }
+
+    .histogram rect {
+      fill: #5b9bd5;
+    }
+
+    .top-values {
+      display: grid;
+      grid-template-columns: minmax(0, 120px) 80px auto;
+      gap: 2px 6px;
+      align-items: center;
+      font-size: 12px;
+    }
+
+    .top-value-label {
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .top-value-bar {
+      height: 8px;
+      background-color: #5b9bd5;
+    }
+
+    .top-value-count {
+      color: #666;
+    }
+
+    .loading {
+      color: #666;
+      font-style: italic;
+      padding: 20px;
+      text-align: center;
+    }
+
+    .error {
+      color: #d32f2f;
+      font-weight: bold;
+      padding: 20px;
+      text-align: center;
+    }
+
+    .no-table {
+      color: #666;
+      padding: 20px;
+      text-align: center;
+    }
+  `;
+
+  /**
+   * Name of the table, optionally qualified as `[[database.]schema.]name`.
+   * Parts containing dots must be double-quoted.
+   */
+  @property({type: String})
+  tableName!: string;
+
+  @property({type: Object})
+  connection!: AsyncDuckDBConnection;
+
+  @state()
+  private profileState:
+    | {status: 'idle'}
+    | {status: 'loading'}
+    | {status: 'loaded'; columns: ColumnProfile[]}
+    | {status: 'error'; error: string} = {status: 'idle'};
+
+  @state()
+  private distributions: Record<string, ColumnDistribution> = {};
+
+  /** Incremented on every fetch so that stale responses can be discarded. */
+  private fetchId = 0;
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    super.willUpdate(changedProperties);
+    if (
+      changedProperties.has('connection') ||
+      changedProperties.has('tableName')
+    ) {
+      this.fetchProfile();
+    }
+  }
+
+  private async fetchProfile() {
+    const fetchId = ++this.fetchId;
+    this.distributions = {};
+
+    if (!this.connection || !this.tableName) {
+      this.profileState = {status: 'idle'};
+      return;
+    }
+
+    this.profileState = {status: 'loading'};
+
+    let columns: ColumnProfile[];
+    let tableName: string;
+    try {
+      tableName = quoteQualifiedName(this.tableName);
+      const result = await this.query(`
+        SELECT column_name, column_type, min, max, approx_unique, avg,
+          q25, q50, q75, count,
+          CAST(null_percentage AS DOUBLE) AS null_percentage
+        FROM (SUMMARIZE ${tableName})
+      `);
+      columns = result.toArray().map((row) => ({
+        name: row.column_name as string,
+        type: row.column_type as string,
+        min: row.min as string | null,
+        max: row.max as string | null,
+        approxUnique:
+          row.approx_unique === null ? null : Number(row.approx_unique),
+        nullPercentage:
+          row.null_percentage === null ? null : Number(row.null_percentage),
+        mean: row.avg as string | null,
+        q25: row.q25 as string | null,
+        q50: row.q50 as string | null,
+        q75: row.q75 as string | null,
+        count: Number(row.count),
+      }));
+    } catch (err) {
+      if (fetchId === this.fetchId) {
+        this.profileState = {
+          status: 'error',
+          error: `Failed to profile table "${this.tableName}": ${
+            err instanceof Error ? err.message : 'Unknown error'
+          }`,
+        };
+      }
+      return;
+    }
+
+    if (fetchId !== this.fetchId) {
+      return;
+    }
+    this.profileState = {status: 'loaded', columns};
+
+    // Charts are loaded column by column once the summary is displayed
+    for (const column of columns) {
+      if (NESTED_TYPE_PATTERN.test(column.type)) {
+        continue;
+      }
+      try {
+        const distribution = await this.fetchDistribution(tableName, column);
+        if (fetchId !== this.fetchId) {
+          return;
+        }
+        this.distributions = {
+          ...this.distributions,
+          [column.name]: distribution,
+        };
+      } catch {
+        // Charts are best effort: the column is shown without one
+      }
+    }
+  }
+
+  /** Runs a query in the queue of the connection, see `runExclusive`. */
+  private query(sql: string) {
+    return runExclusive(this.connection, () => this.connection.query(sql));
+  }
+
+  private async fetchDistribution(
+    tableName: string,
+    column: ColumnProfile
+  ): Promise<ColumnDistribution> {
+    const identifier = quoteIdentifier(column.name);
+
+    if (NUMERIC_TYPE_PATTERN.test(column.type)) {
+      const result = await this.query(`
+        WITH bounds AS (
+          SELECT CAST(MIN(${identifier}) AS DOUBLE) AS lo,
+            CAST(MAX(${identifier}) AS DOUBLE) AS hi
+          FROM ${tableName}
+        )
+        SELECT CAST(COALESCE(LEAST(FLOOR(
+            (CAST(${identifier} AS DOUBLE) - lo) / NULLIF(hi - lo, 0)
+              * ${HISTOGRAM_BIN_COUNT}
+          ), ${HISTOGRAM_BIN_COUNT - 1}), 0) AS INTEGER) AS bin,
+          COUNT(*) AS count
+        FROM ${tableName}, bounds
+        WHERE ${identifier} IS NOT NULL
+        GROUP BY bin
+      `);
+      const bins = new Array<number>(HISTOGRAM_BIN_COUNT).fill(0);
+      for (const row of result.toArray()) {
+        bins[row.bin as number] = Number(row.count);
+      }
+      return {kind: 'histogram', bins};
+    }
+
+    const result = await this.query(`
+      SELECT CAST(${identifier} AS VARCHAR) AS value, COUNT(*) AS count
+      FROM ${tableName}
+      GROUP BY value
+      ORDER BY count DESC, value
+      LIMIT ${TOP_VALUE_COUNT}
+    `);
+    return {
+      kind: 'top-values',
+      values: result.toArray().map((row) => ({
+        value: row.value as string | null,
+        count: Number(row.count),
+      })),
+    };
+  }
+
+  private renderDistribution(distribution: ColumnDistribution | undefined) {
+    if (!distribution) {
+      return '';
+    }
+
+    if (distribution.kind === 'histogram') {
+      const max = Math.max(...distribution.bins, 1);
+      const width = 120;
+      const height = 28;
+      const barWidth = width / distribution.bins.length;
+      return html`<svg
+        class="histogram"
+        width=${width}
+        height=${height}
+        viewBox="0 0 ${width} ${height}"
+        role="img"
+        aria-label="Histogram"
+      >
+        ${distribution.bins.map((count, i) => {
+          const barHeight = (count / max) * height;
+          return svg`<rect
+            x=${i * barWidth + 1}
+            y=${height - barHeight}
+            width=${barWidth - 2}
+            height=${barHeight}
+          ><title>${count.toLocaleString()}</title></rect>`;
+        })}
+      </svg>`;
+    }
+
+    const max = Math.max(...distribution.values.map((v) => v.count), 1);
+    return html`<div class="top-values">
+      ${distribution.values.map(
+        ({value, count}) => html`
+          <span
+            class="top-value-label ${value === null ? 'cell-null' : ''}"
+            title=${value ?? 'NULL'}
+            >${value ?? 'NULL'}</span
+          >
+          <span
+            class="top-value-bar"
+            style="width: ${Math.max((count / max) * 100, 2)}%"
+          ></span>
+          <span class="top-value-count">${count.toLocaleString()}</span>
+        `
+      )}
+    </div>`;
+  }
+
+  private renderValue(value: string | number | null, isNumber = false) {
+    return value === null
+      ? html`<td class="cell-null">NULL</td>`
+      : html`<td class=${isNumber ? 'cell-number' : ''}>
+          ${typeof value === 'number' ? value.toLocaleString() : value}
+        </td>`;
+  }
+
+  private renderProfile(columns: ColumnProfile[]) {
+    return html`
+      <table part="table">
+        <thead>
+          <tr>
+            <th>Column</th>
+            <th>Type</th>
+            <th>Min</th>
+            <th>Max</th>
+            <th>Distinct (approx.)</th>
+            <th>Null %</th>
+            <th>Mean</th>
+            <th>Q25</th>
+            <th>Median</th>
+            <th>Q75</th>
+            <th>Distribution</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${columns.map((column) => {
+            const isNumeric = NUMERIC_TYPE_PATTERN.test(column.type);
+            return html`
+              <tr>
+                <td>${column.name}</td>
+                <td>${column.type}</td>
+                ${this.renderValue(column.min, isNumeric)}
+                ${this.renderValue(column.max, isNumeric)}
+                ${this.renderValue(column.approxUnique, true)}
+                ${this.renderValue(
+                  column.nullPercentage === null
+                    ? null
+                    : `${column.nullPercentage.toLocaleString()}%`,
+                  true
+                )}
+                ${this.renderValue(column.mean, true)}
+                ${this.renderValue(column.q25, true)}
+                ${this.renderValue(column.q50, true)}
+                ${this.renderValue(column.q75, true)}
+                <td>
+                  ${this.renderDistribution(this.distributions[column.name])}
+                </td>
+              </tr>
+            `;
+          })}
+        </tbody>
+      </table>
+    `;
+  }
+
+  override render() {
+    return html`
+      <div class="profile-container">
+        ${this.profileState.status === 'loading'
+          ? html`<div class="loading">Profiling table...</div>`
+          : this.profileState.status === 'error'
+          ? html`<div class="error">${this.profileState.error}</div>`
+          : this.profileState.status === 'loaded'
+          ? this.renderProfile(this.profileState.columns)
+          : html`<div class="no-table">No table name provided</div>`}
+      </div>
+      <slot></slot>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-table-profile': DuckDbGridTableProfile;
+  }
+}
@@ -1,6 +1,12 @@
 import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
 import {css, html, LitElement} from 'lit';
 import {customElement, property, state} from 'lit/decorators.js';
+import {
+  getCatalogWhere,
+  queryWithParams,
+  quoteQualifiedName,
+  runExclusive,
+} from './sql.js';
 
 interface SchemaColumn {
   name: string;
@@ -8,13 +14,45 @@ interface SchemaColumn {
   null: string;
   key: string;
   default: string;
+  comment: string | null;
+}
+
+interface TableInfo {
+  database: string;
+  schema: string;
+  type: 'table' | 'view';
+  comment: string | null;
+  estimatedRowCount: number | null;
+  sql: string | null;
+}
+
+interface SchemaConstraint {
+  type: string;
+  text: string;
+  columns: string;
+  referencedTable: string | null;
+  referencedColumns: string | null;
+}
+
+interface SchemaIndex {
+  name: string;
+  isUnique: boolean;
+  sql: string | null;
 }
 
 /**
- * A web component for displaying the schema of a DuckDB table.
+ * A web component for displaying the schema of a DuckDB table: its columns
+ * and their comments, its constraints and indexes, and table-level metadata
+ * such as its estimated size and `CREATE` statement.
  *
+ * @fires referenced-table-clicked - Indicates when the user clicks the table
+ * referenced by a foreign key. The detail holds its fully-qualified, quoted
+ * `tableName`.
  * @slot - This element has a slot
- * @csspart table - The table element
+ * @csspart table - The columns table element
+ * @csspart constraints - The constraints table element
+ * @csspart indexes - The indexes table element
+ * @csspart create-statement - The CREATE statement
  */
 @customElement('duckdb-grid-table-schema')
 export class DuckDbGridTableSchema extends LitElement {
@@ -58,6 +96,60 @@ export class DuckDbGridTableSchema extends LitElement {
       background-color: #f9f9f9;
     }
 
+    .table-info {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 24px;
+      margin-bottom: 16px;
+      color: #444;
+    }
+
+    .section-title {
+      margin: 24px 0 8px;
+      font-weight: bold;
+      font-size: 15px;
+    }
+
+    .comment {
+      color: #666;
+    }
+
+    .link-button {
+      padding: 0;
+      border: none;
+      background: none;
+      color: #1976d2;
+      font: inherit;
+      text-decoration: underline;
+      cursor: pointer;
+    }
+
+    .create-statement {
+      position: relative;
+    }
+
+    .create-statement pre {
+      margin: 0;
+      padding: 12px;
+      background-color: #f5f5f5;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      overflow-x: auto;
+      white-space: pre-wrap;
+    }
+
+    .copy-button {
+      position: absolute;
+      top: 8px;
+      right: 8px;
+      padding: 4px 8px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background-color: white;
+      font-size: 12px;
+      cursor: pointer;
+    }
+
     .loading {
       color: #666;
       font-style: italic;
@@ -79,6 +171,10 @@ export class DuckDbGridTableSchema extends LitElement {
     }
   `;
 
+  /**
+   * Name of the table, optionally qualified as `[[database.]schema.]name`.
+   * Parts containing dots must be double-quoted.
+   */
   @property({type: String})
   tableName!: string;
 
@@ -88,6 +184,19 @@ export class DuckDbGridTableSchema extends LitElement {
   @state()
   private schema: SchemaColumn[] = [];
 
+  @state()
+  private tableInfo: TableInfo | null = null;
+
+  @state()
+  private constraints: SchemaConstraint[] = [];
+
+  @state()
+  private indexes: SchemaIndex[] = [];
+
+  /** Result of the last copy of the CREATE statement, shown on its button. */
+  @state()
+  private copyStatus: 'idle' | 'copied' | 'failed' = 'idle';
+
   @state()
   private loading = false;
 
@@ -128,26 +237,251 @@ export class DuckDbGridTableSchema extends LitElement {
     this.error = '';
 
     try {
-      const result = await this.connection.query(`DESCRIBE ${this.tableName}`);
+      const result = await runExclusive(this.connection, () =>
+        this.connection.query(`DESCRIBE ${quoteQualifiedName(this.tableName)}`)
+      );
       const rows = result.toArray();
 
+      const {where, params} = getCatalogWhere(this.tableName);
+      const [tableResult, columnResult, constraintResult, indexResult] =
+        await runExclusive(this.connection, () =>
+          Promise.all([
+            queryWithParams(
+              this.connection,
+              `SELECT database_name, schema_name, 'table' AS type, comment,
+                estimated_size, sql
+              FROM duckdb_tables() WHERE ${where}
+              UNION ALL
+              SELECT database_name, schema_name, 'view' AS type, comment,
+                NULL, sql
+              FROM duckdb_views()
+              WHERE ${getCatalogWhere(this.tableName, 'view_name').where}`,
+              [...params, ...params]
+            ),
+            queryWithParams(
+              this.connection,
+              `SELECT column_name, comment FROM duckdb_columns() WHERE ${where}`,
+              params
+            ),
+            queryWithParams(
+              this.connection,
+              `SELECT constraint_type, constraint_text,
+                array_to_string(constraint_column_names, ', ') AS columns,
+                referenced_table,
+                array_to_string(referenced_column_names, ', ')
+                  AS referenced_columns
+              FROM duckdb_constraints()
+              WHERE ${where}
+                AND constraint_type IN
+                  ('PRIMARY KEY', 'UNIQUE', 'CHECK', 'FOREIGN KEY')
+              ORDER BY constraint_index`,
+              params
+            ),
+            queryWithParams(
+              this.connection,
+              `SELECT index_name, is_unique, sql FROM duckdb_indexes()
+              WHERE ${where} ORDER BY index_name`,
+              params
+            ),
+          ])
+        );
+
+      const comments = new Map(
+        columnResult
+          .toArray()
+          .map((row) => [row.column_name as string, row.comment as string])
+      );
       this.schema = rows.map((row) => ({
         name: row.column_name as string,
         type: row.column_type as string,
         null: row.null as string,
         key: row.key as string,
         default: row.default as string,
+        comment: comments.get(row.column_name as string) ?? null,
+      }));
+
+      const [table] = tableResult.toArray();
+      this.tableInfo = table
+        ? {
+            database: table.database_name as string,
+            schema: table.schema_name as string,
+            type: table.type as TableInfo['type'],
+            comment: table.comment as string | null,
+            estimatedRowCount:
+              table.estimated_size === null
+                ? null
+                : Number(table.estimated_size),
+            sql: table.sql as string | null,
+          }
+        : null;
+
+      this.constraints = constraintResult.toArray().map((row) => ({
+        type: row.constraint_type as string,
+        text: row.constraint_text as string,
+        columns: row.columns as string,
+        referencedTable: row.referenced_table as string | null,
+        referencedColumns: row.referenced_columns as string | null,
+      }));
+
+      this.indexes = indexResult.toArray().map((row) => ({
+        name: row.index_name as string,
+        isUnique: row.is_unique as boolean,
+        sql: row.sql as string | null,
       }));
     } catch (err) {
       this.error = `Failed to fetch schema for table "${this.tableName}": ${
         err instanceof Error ? err.message : 'Unknown error'
       }`;
       this.schema = [];
+      this.tableInfo = null;
+      this.constraints = [];
+      this.indexes = [];
     } finally {
       this.loading = false;
     }
   }
 
+  private _onReferencedTableClick(referencedTable: string) {
+    if (!this.tableInfo) {
+      return;
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('referenced-table-clicked', {
+        detail: {
+          tableName: quoteQualifiedName({
+            database: this.tableInfo.database,
+            schema: this.tableInfo.schema,
+            name: referencedTable,
+          }),
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private async _onCopyClick(sql: string) {
+    try {
+      // Fails without clipboard permission or outside of secure contexts
+      await navigator.clipboard.writeText(sql);
+      this.copyStatus = 'copied';
+    } catch {
+      this.copyStatus = 'failed';
+    }
+    setTimeout(() => (this.copyStatus = 'idle'), 2000);
+  }
+
+  private renderTableInfo(tableInfo: TableInfo) {
+    return html`
+      <div class="table-info">
+        <span
+          >${tableInfo.database}.${tableInfo.schema} (${tableInfo.type})</span
+        >
+        ${tableInfo.estimatedRowCount !== null
+          ? html`<span
+              >~${tableInfo.estimatedRowCount.toLocaleString()} rows</span
+            >`
+          : ''}
+        ${tableInfo.comment
+          ? html`<span class="comment">${tableInfo.comment}</span>`
+          : ''}
+      </div>
+    `;
+  }
+
+  private renderConstraints() {
+    if (this.constraints.length === 0) {
+      return '';
+    }
+
+    return html`
+      <div class="section-title">Constraints</div>
+      <table part="constraints">
+        <thead>
+          <tr>
+            <th>Type</th>
+            <th>Columns</th>
+            <th>Definition</th>
+            <th>References</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${this.constraints.map(
+            (constraint) => html`
+              <tr>
+                <td>${constraint.type}</td>
+                <td>${constraint.columns}</td>
+                <td>${constraint.text}</td>
+                <td>
+                  ${constraint.referencedTable
+                    ? html`<button
+                          class="link-button"
+                          @click=${() =>
+                            this._onReferencedTableClick(
+                              constraint.referencedTable!
+                            )}
+                        >
+                          ${constraint.referencedTable}</button
+                        >${constraint.referencedColumns
+                          ? ` (${constraint.referencedColumns})`
+                          : ''}`
+                    : ''}
+                </td>
+              </tr>
+            `
+          )}
+        </tbody>
+      </table>
+    `;
+  }
+
+  private renderIndexes() {
+    if (this.indexes.length === 0) {
+      return '';
+    }
+
+    return html`
+      <div class="section-title">Indexes</div>
+      <table part="indexes">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Unique</th>
+            <th>Definition</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${this.indexes.map(
+            (index) => html`
+              <tr>
+                <td>${index.name}</td>
+                <td>${index.isUnique ? 'YES' : 'NO'}</td>
+                <td>${index.sql ?? ''}</td>
+              </tr>
+            `
+          )}
+        </tbody>
+      </table>
+    `;
+  }
+
+  private renderCreateStatement(sql: string) {
+    return html`
+      <div class="section-title">CREATE statement</div>
+      <div class="create-statement" part="create-statement">
+        <pre>${sql}</pre>
+        <button class="copy-button" @click=${() => this._onCopyClick(sql)}>
+          ${this.copyStatus === 'copied'
+            ? 'Copied!'
+            : this.copyStatus === 'failed'
+            ? 'Could not copy'
+            : 'Copy'}
+        </button>
+      </div>
+    `;
+  }
+
   override render() {
     return html`
       <div class="schema-container">
@@ -160,6 +494,7 @@ export class DuckDbGridTableSchema extends LitElement {
           : this.schema.length === 0
           ? html`<div class="no-table">No schema information found</div>`
           : html`
+              ${this.tableInfo ? this.renderTableInfo(this.tableInfo) : ''}
               <table part="table">
                 <thead>
                   <tr>
@@ -168,6 +503,7 @@ export class DuckDbGridTableSchema extends LitElement {
                     <th>Null</th>
                     <th>Key</th>
                     <th>Default</th>
+                    <th>Comment</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -179,11 +515,16 @@ export class DuckDbGridTableSchema extends LitElement {
                         <td>${column.null}</td>
                         <td>${column.key}</td>
                         <td>${column.default || ''}</td>
+                        <td class="comment">${column.comment ?? ''}</td>
                       </tr>
                     `
                   )}
                 </tbody>
               </table>
+              ${this.renderConstraints()} ${this.renderIndexes()}
+              ${this.tableInfo?.sql
+                ? this.renderCreateStatement(this.tableInfo.sql)
+                : ''}
             `}
       </div>
       <slot></slot>
@@ -1,11 +1,55 @@
 import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
 import {css, html, LitElement} from 'lit';
 import {customElement, property, state} from 'lit/decorators.js';
+import {parseQualifiedName, quoteQualifiedName, runExclusive} from './sql.js';
+
+export interface CatalogObject {
+  database: string;
+  schema: string;
+  name: string;
+  type: 'table' | 'view';
+  /** Estimated number of rows, only known for tables */
+  estimatedRowCount: number | null;
+}
+
+const CATALOG_QUERY = `
+  SELECT database_name, schema_name, name, type, estimated_size
+  FROM (
+    SELECT database_name, schema_name, table_name AS name, 'table' AS type,
+      estimated_size
+    FROM duckdb_tables()
+    WHERE NOT internal
+    UNION ALL
+    SELECT database_name, schema_name, view_name AS name, 'view' AS type,
+      NULL AS estimated_size
+    FROM duckdb_views()
+    WHERE NOT internal
+  )
+  ORDER BY
+    database_name = current_database() AND schema_name = current_schema() DESC,
+    database_name,
+    schema_name,
+    name
+`;
+
+function getQualifiedName(object: CatalogObject) {
+  return quoteQualifiedName({
+    database: object.database,
+    schema: object.schema,
+    name: object.name,
+  });
+}
 
 /**
- * A web component for selecting tables from a DuckDB database.
+ * A web component for selecting tables and views from a DuckDB database.
  *
- * @fires table-selected - Indicates when a table is selected
+ * Objects of every attached database and schema are listed, grouped by
+ * database and schema, and can be narrowed down with a search box.
+ *
+ * @fires table-selected - Indicates when a table is selected. The detail
+ * holds the fully-qualified, quoted `tableName` along with its unquoted
+ * `database`, `schema` and `name`, and its `type`.
+ * @csspart search - The search input
  * @csspart select - The select element
  */
 @customElement('duckdb-grid-table-select')
@@ -17,8 +61,23 @@ export class DuckDbGridTableSelect extends LitElement {
       padding: 16px;
     }
 
+    .picker {
+      display: flex;
+      gap: 8px;
+    }
+
+    input[type='search'] {
+      flex: 0 1 200px;
+      min-width: 0;
+      padding: 8px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
     select {
-      width: 100%;
+      flex: 1;
+      min-width: 0;
       padding: 8px;
       border: 1px solid #ccc;
       border-radius: 4px;
@@ -44,10 +103,13 @@ export class DuckDbGridTableSelect extends LitElement {
   connection!: AsyncDuckDBConnection;
 
   @state()
-  private tables: string[] = [];
+  private tables: CatalogObject[] = [];
+
+  @state()
+  private selectedTable: CatalogObject | null = null;
 
   @state()
-  private selectedTable = '';
+  private search = '';
 
   @state()
   private loading = false;
@@ -69,6 +131,11 @@ export class DuckDbGridTableSelect extends LitElement {
     }
   }
 
+  /** Lists the tables and views again, e.g. after some were created. */
+  async refresh() {
+    await this.fetchTables();
+  }
+
   private async fetchTables() {
     if (!this.connection) {
       this.error = 'No database connection available';
@@ -79,9 +146,25 @@ export class DuckDbGridTableSelect extends LitElement {
     this.error = '';
 
     try {
-      const result = await this.connection.query('SHOW TABLES');
+      const result = await runExclusive(this.connection, () =>
+        this.connection.query(CATALOG_QUERY)
+      );
 
-      this.tables = result.toArray().map((row) => row.name as string);
+      this.tables = result.toArray().map((row) => ({
+        database: row.database_name as string,
+        schema: row.schema_name as string,
+        name: row.name as string,
+        type: row.type as CatalogObject['type'],
+        estimatedRowCount:
+          row.estimated_size === null ? null : Number(row.estimated_size),
+      }));
+
+      // Keep the selection across refreshes, matching it by name
+      const selectedName =
+        this.selectedTable && getQualifiedName(this.selectedTable);
+      this.selectedTable =
+        this.tables.find((table) => getQualifiedName(table) === selectedName) ??
+        null;
 
       // Auto-select first table if none selected
       if (this.tables.length > 0 && !this.selectedTable) {
@@ -98,22 +181,93 @@ export class DuckDbGridTableSelect extends LitElement {
     }
   }
 
+  /**
+   * Selects a listed table or view by its name, optionally qualified as
+   * `[[database.]schema.]name`, and fires `table-selected`. Unqualified
+   * names are looked up in the current database and schema first. Returns
+   * false when no such object is listed.
+   */
+  selectTable(tableName: string): boolean {
+    const {database, schema, name} = parseQualifiedName(tableName);
+    const table = this.tables.find(
+      (table) =>
+        table.name === name &&
+        (schema === undefined || table.schema === schema) &&
+        (database === undefined || table.database === database)
+    );
+    if (!table) {
+      return false;
+    }
+
+    this.search = '';
+    this.selectedTable = table;
+    this._dispatchTableSelected();
+    return true;
+  }
+
   private _onTableChange(e: Event) {
     const select = e.target as HTMLSelectElement;
-    this.selectedTable = select.value;
+    this.selectedTable =
+      this.tables.find((table) => getQualifiedName(table) === select.value) ??
+      null;
     this._dispatchTableSelected();
   }
 
+  private _onSearchInput(e: Event) {
+    this.search = (e.target as HTMLInputElement).value;
+  }
+
   private _dispatchTableSelected() {
+    if (!this.selectedTable) {
+      return;
+    }
+
     this.dispatchEvent(
       new CustomEvent('table-selected', {
-        detail: {tableName: this.selectedTable},
+        detail: {
+          tableName: getQualifiedName(this.selectedTable),
+          database: this.selectedTable.database,
+          schema: this.selectedTable.schema,
+          name: this.selectedTable.name,
+          type: this.selectedTable.type,
+        },
         bubbles: true,
         composed: true,
       })
     );
   }
 
+  /** Groups the objects matching the search by database and schema. */
+  private getGroups() {
+    const search = this.search.trim().toLowerCase();
+    const groups = new Map<string, CatalogObject[]>();
+
+    for (const table of this.tables) {
+      if (
+        search &&
+        table !== this.selectedTable &&
+        !`${table.database}.${table.schema}.${table.name}`
+          .toLowerCase()
+          .includes(search)
+      ) {
+        continue;
+      }
+
+      const label = `${table.database} › ${table.schema}`;
+      groups.set(label, [...(groups.get(label) ?? []), table]);
+    }
+
+    return [...groups];
+  }
+
+  private getOptionLabel(table: CatalogObject) {
+    return table.estimatedRowCount === null
+      ? `${table.name} (${table.type})`
+      : `${table.name} (${
+          table.type
+        }, ~${table.estimatedRowCount.toLocaleString()} rows)`;
+  }
+
   override render() {
     return html`
       ${this.loading
@@ -123,23 +277,39 @@ export class DuckDbGridTableSelect extends LitElement {
         : this.tables.length === 0
         ? html`<div class="no-tables">No tables found in database</div>`
         : html`
-            <select
-              id="table-select"
-              part="select"
-              .value=${this.selectedTable}
-              @change=${this._onTableChange}
-            >
-              ${this.tables.map(
-                (table) => html`
-                  <option
-                    value=${table}
-                    ?selected=${table === this.selectedTable}
-                  >
-                    ${table}
-                  </option>
-                `
-              )}
-            </select>
+            <div class="picker">
+              <input
+                type="search"
+                part="search"
+                placeholder="Search tables..."
+                aria-label="Search tables"
+                .value=${this.search}
+                @input=${this._onSearchInput}
+              />
+              <select
+                id="table-select"
+                part="select"
+                aria-label="Table"
+                @change=${this._onTableChange}
+              >
+                ${this.getGroups().map(
+                  ([label, tables]) => html`
+                    <optgroup label=${label}>
+                      ${tables.map(
+                        (table) => html`
+                          <option
+                            value=${getQualifiedName(table)}
+                            ?selected=${table === this.selectedTable}
+                          >
+                            ${this.getOptionLabel(table)}
+                          </option>
+                        `
+                      )}
+                    </optgroup>
+                  `
+                )}
+              </select>
+            </div>
           `}
     `;
   }
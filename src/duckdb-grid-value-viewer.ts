@@ -0,0 +1,176 @@
+import {DataType} from 'apache-arrow';
+import {css, html, LitElement} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {
+  formatArrowValue,
+  formatNestedPreview,
+  FormatOptions,
+} from './arrowValues.js';
+
+/**
+ * A web component displaying a LIST, STRUCT or MAP value as a collapsible
+ * tree, following the children of its Arrow type.
+ *
+ * @csspart tree - The root of the tree
+ */
+@customElement('duckdb-grid-value-viewer')
+export class DuckDbGridValueViewer extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      font-family: monospace;
+      font-size: 13px;
+    }
+
+    ul {
+      list-style: none;
+      margin: 0;
+      padding-left: 16px;
+    }
+
+    summary {
+      cursor: pointer;
+    }
+
+    .key {
+      color: #6a1b9a;
+    }
+
+    .preview {
+      color: #666;
+    }
+
+    .cell-null {
+      color: #999;
+      font-style: italic;
+    }
+  `;
+
+  /** The value, as converted by `getArrowValue`. */
+  @property({attribute: false})
+  value: unknown = null;
+
+  /** The Arrow type of the value, or null when it is unknown. */
+  @property({attribute: false})
+  type: DataType | null = null;
+
+  /** Label of the root node. */
+  @property({type: String})
+  label = '';
+
+  /** Number of levels expanded initially. */
+  @property({type: Number})
+  expandDepth = 1;
+
+  /** The locale and time zone of the values. */
+  @property({attribute: false})
+  formatOptions: FormatOptions = {};
+
+  private renderChildren(
+    entries: [string, unknown, DataType | null][],
+    depth: number
+  ) {
+    return html`<ul>
+      ${entries.map(
+        ([label, value, type]) =>
+          html`<li>${this.renderNode(label, value, type, depth + 1)}</li>`
+      )}
+    </ul>`;
+  }
+
+  private renderNode(
+    label: string,
+    value: unknown,
+    type: DataType | null,
+    depth: number
+  ): unknown {
+    const key = label ? html`<span class="key">${label}</span>: ` : '';
+    // The member type of a UNION value is unknown
+    const knownType = type && !DataType.isUnion(type) ? type : null;
+
+    if (Array.isArray(value)) {
+      const childType = knownType?.children[0]?.type ?? null;
+      return html`<details ?open=${depth < this.expandDepth}>
+        <summary>
+          ${key}<span class="preview">${formatNestedPreview(value)}</span>
+        </summary>
+        ${this.renderChildren(
+          value.map((item, i) => [`[${i}]`, item, childType]),
+          depth
+        )}
+      </details>`;
+    }
+
+    if (value instanceof Map) {
+      const entryTypes = knownType?.children[0]?.type.children ?? [];
+      const keyType = entryTypes[0]?.type ?? null;
+      return html`<details ?open=${depth < this.expandDepth}>
+        <summary>
+          ${key}<span class="preview">${formatNestedPreview(value)}</span>
+        </summary>
+        ${this.renderChildren(
+          [...value].map(([k, v]) => [
+            keyType
+              ? formatArrowValue(k, keyType, this.formatOptions)
+              : String(k),
+            v,
+            entryTypes[1]?.type ?? null,
+          ]),
+          depth
+        )}
+      </details>`;
+    }
+
+    if (
+      value !== null &&
+      typeof value === 'object' &&
+      !(value instanceof Uint8Array) &&
+      (!knownType || DataType.isStruct(knownType))
+    ) {
+      const struct = value as Record<string, unknown>;
+      const fields =
+        knownType && DataType.isStruct(knownType)
+          ? knownType.children.map(
+              (field): [string, unknown, DataType | null] => [
+                field.name,
+                struct[field.name],
+                field.type,
+              ]
+            )
+          : Object.keys(struct).map(
+              (name): [string, unknown, DataType | null] => [
+                name,
+                struct[name],
+                null,
+              ]
+            );
+      return html`<details ?open=${depth < this.expandDepth}>
+        <summary>
+          ${key}<span class="preview">${formatNestedPreview(value)}</span>
+        </summary>
+        ${this.renderChildren(fields, depth)}
+      </details>`;
+    }
+
+    const isNull = value === null || value === undefined;
+    return html`${key}<span class=${isNull ? 'cell-null' : ''}
+        >${knownType
+          ? formatArrowValue(value, knownType, this.formatOptions)
+          : isNull
+          ? 'NULL'
+          : String(value)}</span
+      >`;
+  }
+
+  override render() {
+    return html`<div part="tree">
+      ${this.renderNode(this.label, this.value, this.type, 0)}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'duckdb-grid-value-viewer': DuckDbGridValueViewer;
+  }
+}
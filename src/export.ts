@@ -0,0 +1,167 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {Table, tableToIPC} from 'apache-arrow';
+import {
+  queryWithParams,
+  quoteIdentifier,
+  quoteLiteral,
+  quoteQualifiedName,
+} from './sql.js';
+
+export type ExportFormat =
+  | 'csv'
+  | 'excel'
+  | 'parquet'
+  | 'json'
+  | 'ndjson'
+  | 'arrow';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Field delimiter of CSV exports, `,` by default */
+  delimiter?: string;
+  /** Whether CSV exports start with a header row, true by default */
+  header?: boolean;
+}
+
+/**
+ * The rows to export: an Arrow table already fetched, or a query, with `?`
+ * placeholders bound to `params`, which is run in full.
+ */
+export type ExportSource = {table: Table} | {query: string; params?: unknown[]};
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  {label: string; extension: string; mimeType: string}
+> = {
+  csv: {label: 'CSV', extension: 'csv', mimeType: 'text/csv'},
+  excel: {label: 'Excel (CSV)', extension: 'csv', mimeType: 'text/csv'},
+  parquet: {
+    label: 'Parquet',
+    extension: 'parquet',
+    mimeType: 'application/vnd.apache.parquet',
+  },
+  json: {label: 'JSON', extension: 'json', mimeType: 'application/json'},
+  ndjson: {
+    label: 'NDJSON',
+    extension: 'ndjson',
+    mimeType: 'application/x-ndjson',
+  },
+  arrow: {
+    label: 'Arrow IPC',
+    extension: 'arrow',
+    mimeType: 'application/vnd.apache.arrow.file',
+  },
+};
+
+/** Lets Excel detect that CSV files are encoded in UTF-8. */
+const UTF8_BOM = new Uint8Array([0xef, 0xbb, 0xbf]);
+
+let exportCount = 0;
+
+function getCopyOptions(options: ExportOptions): string {
+  switch (options.format) {
+    case 'csv':
+      return `FORMAT csv, HEADER ${
+        options.header ?? true
+      }, DELIMITER ${quoteLiteral(options.delimiter || ',')}`;
+    case 'excel':
+      return 'FORMAT csv, HEADER true';
+    case 'parquet':
+      return 'FORMAT parquet';
+    case 'json':
+      return 'FORMAT json, ARRAY true';
+    case 'ndjson':
+      return 'FORMAT json';
+    case 'arrow':
+      throw new Error('Arrow IPC files are not written with COPY');
+  }
+}
+
+/**
+ * Exports rows to a file of the given format. Files are written by DuckDB
+ * with `COPY ... TO` into its virtual filesystem, then read back and removed.
+ * Arrow IPC files, which DuckDB cannot write, are serialized with Arrow JS.
+ * Tables are first inserted into a DuckDB table of an in-memory database
+ * attached for the export, which leaves the user's databases untouched.
+ */
+export async function exportData(
+  connection: AsyncDuckDBConnection,
+  source: ExportSource,
+  options: ExportOptions
+): Promise<Blob> {
+  const {mimeType} = EXPORT_FORMATS[options.format];
+
+  if (options.format === 'arrow') {
+    const table =
+      'table' in source
+        ? source.table
+        : await queryWithParams(connection, source.query, source.params ?? []);
+    const buffer = tableToIPC(table, 'file') as Uint8Array<ArrayBuffer>;
+    return new Blob([buffer], {type: mimeType});
+  }
+
+  const id = ++exportCount;
+  const fileName = `duckdb_grid_export_${id}.${
+    EXPORT_FORMATS[options.format].extension
+  }`;
+  const tempDatabase = `duckdb_grid_export_${id}`;
+
+  try {
+    let query: string;
+    let params: unknown[];
+    if ('table' in source) {
+      await connection.query(
+        `ATTACH ':memory:' AS ${quoteIdentifier(tempDatabase)}`
+      );
+      // A two-part name resolves to the default schema of the database
+      await connection.insertArrowTable(source.table, {
+        name: 'data',
+        schema: tempDatabase,
+        create: true,
+      });
+      query = `SELECT * FROM ${quoteQualifiedName({
+        database: tempDatabase,
+        schema: 'main',
+        name: 'data',
+      })}`;
+      params = [];
+    } else {
+      query = source.query.trim().replace(/;+\s*$/, '');
+      params = source.params ?? [];
+    }
+
+    await queryWithParams(
+      connection,
+      `COPY (${query}) TO ${quoteLiteral(fileName)} (${getCopyOptions(
+        options
+      )})`,
+      params
+    );
+    // Copied out of the wasm memory, so never backed by a SharedArrayBuffer
+    const buffer = (await connection.bindings.copyFileToBuffer(
+      fileName
+    )) as Uint8Array<ArrayBuffer>;
+
+    return new Blob(
+      options.format === 'excel' ? [UTF8_BOM, buffer] : [buffer],
+      {type: mimeType}
+    );
+  } finally {
+    await connection.bindings.dropFile(fileName).catch(() => undefined);
+    if ('table' in source) {
+      await connection
+        .query(`DETACH DATABASE IF EXISTS ${quoteIdentifier(tempDatabase)}`)
+        .catch(() => undefined);
+    }
+  }
+}
+
+/** Hands a file to the browser as a download. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
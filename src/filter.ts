@@ -0,0 +1,296 @@
+import {DataType, Table} from 'apache-arrow';
+import {getArrowValue} from './arrowValues.js';
+import {quoteIdentifier} from './sql.js';
+
+export type ColumnFilter =
+  | {
+      column: string;
+      kind: 'text';
+      operator: 'contains' | 'regex';
+      value: string;
+    }
+  | {column: string; kind: 'range'; min: number | null; max: number | null}
+  | {
+      column: string;
+      kind: 'date-range';
+      from: string | null;
+      to: string | null;
+    }
+  | {column: string; kind: 'null'; isNull: boolean}
+  | {column: string; kind: 'enum'; values: string[]}
+  /** Matches the value that DuckDB casts `value` to, in the column type */
+  | {column: string; kind: 'equals'; value: string};
+
+export type ColumnFilterKind = ColumnFilter['kind'];
+
+export interface CompiledWhere {
+  /** The WHERE clause, with a leading space, or '' when nothing is filtered */
+  sql: string;
+  /** Values for the `?` placeholders of `sql`, in order */
+  params: unknown[];
+}
+
+export function getColumnFilter<K extends ColumnFilterKind>(
+  filters: ColumnFilter[],
+  column: string,
+  kind: K
+): Extract<ColumnFilter, {kind: K}> | undefined {
+  return filters.find(
+    (f): f is Extract<ColumnFilter, {kind: K}> =>
+      f.column === column && f.kind === kind
+  );
+}
+
+/**
+ * Replaces the filter of the given kind for a column. Passing null, or a
+ * filter that would match everything, removes it.
+ */
+export function setColumnFilter(
+  filters: ColumnFilter[],
+  column: string,
+  kind: ColumnFilterKind,
+  filter: ColumnFilter | null
+): ColumnFilter[] {
+  const others = filters.filter(
+    (f) => !(f.column === column && f.kind === kind)
+  );
+  return filter && !isEmptyFilter(filter) ? [...others, filter] : others;
+}
+
+function isEmptyFilter(filter: ColumnFilter): boolean {
+  switch (filter.kind) {
+    case 'text':
+      return filter.value === '';
+    case 'range':
+      return filter.min === null && filter.max === null;
+    case 'date-range':
+      return !filter.from && !filter.to;
+    case 'null':
+      return false;
+    case 'enum':
+      return filter.values.length === 0;
+    case 'equals':
+      return false;
+  }
+}
+
+/**
+ * Describes a filter for display, such as `price ≥ 10` or `name contains
+ * "duck"`.
+ */
+export function describeFilter(filter: ColumnFilter): string {
+  const {column} = filter;
+  const bounds = (min: unknown, max: unknown) =>
+    min !== null && max !== null
+      ? min === max
+        ? `${column} = ${min}`
+        : `${min} ≤ ${column} ≤ ${max}`
+      : min !== null
+      ? `${column} ≥ ${min}`
+      : `${column} ≤ ${max}`;
+
+  switch (filter.kind) {
+    case 'text':
+      return filter.operator === 'regex'
+        ? `${column} matches /${filter.value}/`
+        : `${column} contains "${filter.value}"`;
+    case 'range':
+      return bounds(filter.min, filter.max);
+    case 'date-range':
+      return bounds(filter.from || null, filter.to || null);
+    case 'null':
+      return `${column} is ${filter.isNull ? '' : 'not '}NULL`;
+    case 'enum':
+      return filter.values.length === 1
+        ? `${column} = ${filter.values[0]}`
+        : `${column} in (${filter.values.join(', ')})`;
+    case 'equals':
+      return `${column} = ${filter.value}`;
+  }
+}
+
+/**
+ * Compiles filters to a parameterized WHERE clause. Column names are quoted
+ * and every user-provided value is passed as a parameter.
+ */
+export function compileWhere(filters: ColumnFilter[]): CompiledWhere {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  for (const filter of filters) {
+    if (isEmptyFilter(filter)) {
+      continue;
+    }
+
+    const column = quoteIdentifier(filter.column);
+    switch (filter.kind) {
+      case 'text':
+        if (filter.operator === 'regex') {
+          conditions.push(`regexp_matches(CAST(${column} AS VARCHAR), ?)`);
+          params.push(filter.value);
+        } else {
+          conditions.push(
+            `contains(lower(CAST(${column} AS VARCHAR)), lower(?))`
+          );
+          params.push(filter.value);
+        }
+        break;
+      case 'range':
+        if (filter.min !== null) {
+          conditions.push(`${column} >= ?`);
+          params.push(filter.min);
+        }
+        if (filter.max !== null) {
+          conditions.push(`${column} <= ?`);
+          params.push(filter.max);
+        }
+        break;
+      case 'date-range':
+        if (filter.from) {
+          conditions.push(`CAST(${column} AS DATE) >= CAST(? AS DATE)`);
+          params.push(filter.from);
+        }
+        if (filter.to) {
+          conditions.push(`CAST(${column} AS DATE) <= CAST(? AS DATE)`);
+          params.push(filter.to);
+        }
+        break;
+      case 'null':
+        conditions.push(`${column} IS ${filter.isNull ? '' : 'NOT '}NULL`);
+        break;
+      case 'enum':
+        conditions.push(
+          `CAST(${column} AS VARCHAR) IN (${filter.values
+            .map(() => '?')
+            .join(', ')})`
+        );
+        params.push(...filter.values);
+        break;
+      case 'equals':
+        // The parameter takes the type of the column, keeping all its digits
+        conditions.push(`${column} = ?`);
+        params.push(filter.value);
+        break;
+    }
+  }
+
+  return {
+    sql: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+function matchesFilter(value: unknown, filter: ColumnFilter): boolean {
+  const isNull = value === null || value === undefined;
+  if (filter.kind === 'null') {
+    return isNull === filter.isNull;
+  }
+  if (isNull) {
+    return false;
+  }
+
+  switch (filter.kind) {
+    case 'text':
+      if (filter.operator === 'regex') {
+        try {
+          return new RegExp(filter.value).test(String(value));
+        } catch {
+          return false;
+        }
+      }
+      return String(value).toLowerCase().includes(filter.value.toLowerCase());
+    case 'range':
+      return (
+        (filter.min === null || Number(value) >= filter.min) &&
+        (filter.max === null || Number(value) <= filter.max)
+      );
+    case 'date-range': {
+      const date = String(value).slice(0, 10);
+      return (
+        (!filter.from || date >= filter.from) &&
+        (!filter.to || date <= filter.to)
+      );
+    }
+    case 'enum':
+      return filter.values.includes(String(value));
+    case 'equals':
+      return String(value) === filter.value;
+  }
+}
+
+/**
+ * Filters the rows of an Arrow table client-side and returns the indexes of
+ * the matching rows.
+ */
+export function filterRowIndexes(
+  table: Table,
+  filters: ColumnFilter[]
+): number[] {
+  const checks = filters
+    .filter((filter) => !isEmptyFilter(filter))
+    .map((filter) => {
+      const vector = table.getChild(filter.column);
+      return vector ? {filter, vector} : null;
+    })
+    .filter((check): check is NonNullable<typeof check> => check !== null);
+
+  const indexes: number[] = [];
+  for (let i = 0; i < table.numRows; i++) {
+    if (
+      checks.every(({filter, vector}) =>
+        matchesFilter(getArrowValue(vector, i), filter)
+      )
+    ) {
+      indexes.push(i);
+    }
+  }
+  return indexes;
+}
+
+/**
+ * Builds a filter keeping the rows where a column equals a value, as read by
+ * `getArrowValue`: a NULL check, the pick-list value when the column has
+ * `options`, a regex anchored on both ends for strings, single-value ranges
+ * for dates and for numbers that JS numbers hold exactly, and the exact text
+ * of 64-bit integers, DECIMALs and TIMESTAMPs otherwise. Returns null when
+ * values of the column type cannot be filtered.
+ */
+export function getValueFilter(
+  column: string,
+  type: DataType,
+  value: unknown,
+  options?: string[]
+): ColumnFilter | null {
+  if (value === null || value === undefined) {
+    return {column, kind: 'null', isNull: true};
+  }
+  const text = String(value);
+  if (options) {
+    return {column, kind: 'enum', values: [text]};
+  }
+  if (DataType.isUtf8(type)) {
+    return {
+      column,
+      kind: 'text',
+      operator: 'regex',
+      value: `^${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`,
+    };
+  }
+  if (
+    typeof value === 'bigint' ||
+    DataType.isDecimal(type) ||
+    DataType.isTimestamp(type)
+  ) {
+    return {column, kind: 'equals', value: text};
+  }
+  if (DataType.isInt(type) || DataType.isFloat(type)) {
+    const number = Number(value);
+    return Number.isFinite(number)
+      ? {column, kind: 'range', min: number, max: number}
+      : null;
+  }
+  if (DataType.isDate(type)) {
+    return {column, kind: 'date-range', from: text, to: text};
+  }
+  return null;
+}
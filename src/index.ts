@@ -6,6 +6,87 @@
 
 export {DuckDbGridInspector} from './duckdb-grid-inspector.js';
 export {DuckDbGridTableSchema} from './duckdb-grid-table-schema.js';
+export {DuckDbGridTableProfile} from './duckdb-grid-table-profile.js';
 export {DuckDbGridTableSelect} from './duckdb-grid-table-select.js';
 export {DuckDbGridTableData} from './duckdb-grid-table-data.js';
 export {DuckDbGridQueryExecutor} from './duckdb-grid-query-executor.js';
+export type {SortColumn, SortDirection} from './sort.js';
+export type {ColumnFilter, ColumnFilterKind} from './filter.js';
+export type {CatalogObject} from './duckdb-grid-table-select.js';
+export {
+  parseQualifiedName,
+  quoteIdentifier,
+  quoteLiteral,
+  quoteQualifiedName,
+  runExclusive,
+} from './sql.js';
+export type {QualifiedName} from './sql.js';
+export {formatArrowValue, getArrowValue} from './arrowValues.js';
+export type {ArrowInterval, FormatOptions} from './arrowValues.js';
+export {DuckDbGridValueViewer} from './duckdb-grid-value-viewer.js';
+export type {FlattenedColumn} from './sql.js';
+export {DuckDbGridExportMenu} from './duckdb-grid-export-menu.js';
+export {downloadBlob, EXPORT_FORMATS, exportData} from './export.js';
+export type {ExportFormat, ExportOptions, ExportSource} from './export.js';
+export {DuckDbGridFileImport} from './duckdb-grid-file-import.js';
+export {DuckDbGridSqlEditor} from './duckdb-grid-sql-editor.js';
+export type {EditorError} from './duckdb-grid-sql-editor.js';
+export {getErrorOffset, tokenizeSql} from './sqlSyntax.js';
+export type {SqlToken, SqlTokenType} from './sqlSyntax.js';
+export {DuckDbGridQueryHistory} from './duckdb-grid-query-history.js';
+export {LocalStorageQueryStorage} from './queryHistory.js';
+export type {HistoryEntry, QueryStorage, SavedQuery} from './queryHistory.js';
+export {DuckDbGridParameterForm} from './duckdb-grid-parameter-form.js';
+export {bindParameters, findParameters} from './parameters.js';
+export type {QueryParams} from './parameters.js';
+export {DuckDbGridQueryPlan} from './duckdb-grid-query-plan.js';
+export {explainQuery, parsePlan} from './queryPlan.js';
+export type {PlanNode, QueryPlan} from './queryPlan.js';
+export {
+  applyChangeset,
+  compileChangeset,
+  fetchEditableTable,
+  validateCell,
+} from './changeset.js';
+export type {
+  CellText,
+  Changeset,
+  EditableColumn,
+  EditableTable,
+} from './changeset.js';
+export {DuckDbGridChart} from './duckdb-grid-chart.js';
+export {getChartColumns, getChartData, inferChartOptions} from './chart.js';
+export type {
+  ChartAggregation,
+  ChartColumn,
+  ChartData,
+  ChartOptions,
+  ChartType,
+} from './chart.js';
+export {DuckDbGridPivotPanel} from './duckdb-grid-pivot-panel.js';
+export {compilePivotQuery, fetchPivotKeys} from './pivot.js';
+export type {
+  PivotAggregation,
+  PivotConfig,
+  PivotKey,
+  PivotValue,
+  RowGroups,
+} from './pivot.js';
+export type {ColumnLayout, ColumnState} from './columnState.js';
+export {COPY_FORMATS, formatCellRange} from './clipboard.js';
+export type {CellRange, CopyFormat} from './clipboard.js';
+export {
+  currencyRenderer,
+  fixedRenderer,
+  getCellRenderer,
+  jsonRenderer,
+  linkRenderer,
+  numberRenderer,
+  percentRenderer,
+  progressRenderer,
+} from './cellRenderers.js';
+export type {
+  CellContext,
+  CellRenderer,
+  CellRenderers,
+} from './cellRenderers.js';
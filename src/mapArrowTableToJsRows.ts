@@ -1,28 +1,16 @@
-import {DataType, Table} from 'apache-arrow';
+import {Table} from 'apache-arrow';
+import {getArrowValue} from './arrowValues.js';
 
 export function mapArrowTableToJsRows(table: Table): Record<string, unknown>[] {
-  return table.toArray().map((row, index) => {
-    const convertedRow: Record<string, unknown> = {};
-    for (const [k, v] of row) {
-      if (typeof v === 'bigint') {
-        convertedRow[k] = Number(v);
-        continue;
-      }
-
-      const field = table.schema.fields.find((field) => field.name === k);
-      if (DataType.isDate(field?.type)) {
-        convertedRow[k] =
-          typeof v === 'number'
-            ? new Date(v).toISOString().split('T')[0]
-            : undefined;
-        continue;
-      } else if (DataType.isTimestamp(field?.type)) {
-        convertedRow[k] =
-          typeof v === 'number' ? new Date(v).toISOString() : undefined;
-        continue;
-      }
+  const columns = table.schema.fields.map((field, index) => ({
+    name: field.name,
+    vector: table.getChildAt(index),
+  }));
 
-      convertedRow[k] = v;
+  return Array.from({length: table.numRows}, (_, index) => {
+    const convertedRow: Record<string, unknown> = {};
+    for (const {name, vector} of columns) {
+      convertedRow[name] = vector ? getArrowValue(vector, index) : null;
     }
 
     // Hack so that rows always have an id
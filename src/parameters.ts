@@ -0,0 +1,83 @@
+import {tokenizeSql} from './sqlSyntax.js';
+
+/**
+ * Values of query parameters, by name: `name` for `$name`, and the position
+ * for `?` and `$1`-style placeholders. An array holds positional values.
+ */
+export type QueryParams = Record<string, unknown> | unknown[];
+
+const NO_KEYWORDS = new Set<string>();
+
+/**
+ * Returns the names of the placeholders of a script, in order of first
+ * appearance. `?` placeholders are numbered across the whole script.
+ */
+export function findParameters(script: string): string[] {
+  const names: string[] = [];
+  let positionalCount = 0;
+  for (const token of tokenizeSql(script, NO_KEYWORDS)) {
+    if (token.type !== 'parameter') {
+      continue;
+    }
+    const name =
+      token.text === '?' ? String(++positionalCount) : token.text.slice(1);
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+/** Counts the `?` placeholders of a script. */
+export function countPositionalParameters(script: string): number {
+  return tokenizeSql(script, NO_KEYWORDS).filter(
+    (token) => token.type === 'parameter' && token.text === '?'
+  ).length;
+}
+
+/** Returns the value of a parameter, or undefined when it has none. */
+export function getParamValue(params: QueryParams, name: string): unknown {
+  if (Array.isArray(params)) {
+    return /^\d+$/.test(name) ? params[Number(name) - 1] : undefined;
+  }
+  return params[name];
+}
+
+/**
+ * Rewrites the placeholders of a statement as `$1`, `$2`... so that they can
+ * be bound positionally with `prepare()`, and returns the values to bind.
+ * `positionalOffset` is the number of `?` placeholders of the script before
+ * the statement. Throws when a parameter has no value.
+ */
+export function bindParameters(
+  statement: string,
+  params: QueryParams,
+  positionalOffset = 0
+): {sql: string; params: unknown[]} {
+  const names: string[] = [];
+  let positionalCount = positionalOffset;
+  const sql = tokenizeSql(statement, NO_KEYWORDS)
+    .map((token) => {
+      if (token.type !== 'parameter') {
+        return token.text;
+      }
+      const name =
+        token.text === '?' ? String(++positionalCount) : token.text.slice(1);
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+      return `$${names.indexOf(name) + 1}`;
+    })
+    .join('');
+
+  return {
+    sql,
+    params: names.map((name) => {
+      const value = getParamValue(params, name);
+      if (value === undefined) {
+        throw new Error(`No value for parameter $${name}`);
+      }
+      return value;
+    }),
+  };
+}
@@ -0,0 +1,214 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {CompiledWhere} from './filter.js';
+import {queryWithParams, quoteIdentifier, quoteLiteral} from './sql.js';
+
+export type PivotAggregation = 'sum' | 'avg' | 'count' | 'count_distinct';
+
+export interface PivotValue {
+  column: string;
+  aggregation: PivotAggregation;
+}
+
+/**
+ * How a table is pivoted: its rows are grouped by the `rows` columns, with
+ * subtotals, and spread across one column per value of the `columns`.
+ */
+export interface PivotConfig {
+  rows: string[];
+  columns: string[];
+  /** Aggregates computed per cell, a row count when empty */
+  values: PivotValue[];
+}
+
+/**
+ * How the rows of a table are grouped: `depthColumn` holds the number of
+ * `columns` a row is grouped by. Rows grouped by fewer than all of them are
+ * subtotals, the row of depth 0 being the grand total.
+ */
+export interface RowGroups {
+  columns: string[];
+  depthColumn: string;
+}
+
+export const EMPTY_PIVOT: PivotConfig = {rows: [], columns: [], values: []};
+
+export const PIVOT_AGGREGATIONS: Record<PivotAggregation, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  count_distinct: 'Count distinct',
+};
+
+/**
+ * A combination of values of the pivot columns, cast to VARCHAR. Unlike their
+ * labels, distinct combinations have distinct keys.
+ */
+export type PivotKey = Array<string | null>;
+
+/** Name of the column holding the depth of the rows of a pivot. */
+export const PIVOT_DEPTH_COLUMN = '__depth';
+
+/** Maximum number of values of the pivot columns spread across columns. */
+export const MAX_PIVOT_COLUMNS = 50;
+
+const NUMERIC_TYPE_PATTERN =
+  /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT|FLOAT|DOUBLE|DECIMAL)/;
+
+/** Aggregations that apply to a column type: sums and averages need numbers. */
+export function getPivotAggregations(type: string): PivotAggregation[] {
+  return NUMERIC_TYPE_PATTERN.test(type)
+    ? ['sum', 'avg', 'count', 'count_distinct']
+    : ['count', 'count_distinct'];
+}
+
+/** Name of the column of an aggregate, such as `sum(amount)`. */
+export function getPivotValueName({column, aggregation}: PivotValue): string {
+  return aggregation === 'count_distinct'
+    ? `count(DISTINCT ${column})`
+    : `${aggregation}(${column})`;
+}
+
+function compileAggregate({column, aggregation}: PivotValue): string {
+  const identifier = quoteIdentifier(column);
+  return aggregation === 'count_distinct'
+    ? `count(DISTINCT ${identifier})`
+    : `${aggregation}(${identifier})`;
+}
+
+/** Lists the values of the pivot columns of a row, as a `PivotKey`. */
+function compilePivotKey(columns: string[]): string {
+  return `[${columns
+    .map((column) => `CAST(${quoteIdentifier(column)} AS VARCHAR)`)
+    .join(', ')}]`;
+}
+
+function compilePivotKeyLiteral(key: PivotKey): string {
+  return `CAST([${key
+    .map((value) => (value === null ? 'NULL' : quoteLiteral(value)))
+    .join(', ')}] AS VARCHAR[])`;
+}
+
+/**
+ * Labels the combinations of values of the pivot columns, such as
+ * `2024 / EU`. The labels name the columns of the pivot, those shared by
+ * several keys being numbered.
+ */
+function getPivotKeyLabels(keys: PivotKey[]): string[] {
+  const counts = new Map<string, number>();
+  return keys.map((key) => {
+    const label = key.map((value) => value ?? 'NULL').join(' / ');
+    const count = (counts.get(label) ?? 0) + 1;
+    counts.set(label, count);
+    return count > 1 ? `${label} (${count})` : label;
+  });
+}
+
+/**
+ * Loads the combinations of values of the pivot columns found in `source`,
+ * up to `MAX_PIVOT_COLUMNS`. DuckDB cannot extract them itself when the
+ * source has parameters.
+ */
+export async function fetchPivotKeys(
+  connection: AsyncDuckDBConnection,
+  source: string,
+  config: PivotConfig,
+  where: CompiledWhere
+): Promise<{keys: PivotKey[]; truncated: boolean}> {
+  if (config.columns.length === 0) {
+    return {keys: [], truncated: false};
+  }
+
+  const result = await queryWithParams(
+    connection,
+    `SELECT DISTINCT ${compilePivotKey(config.columns)} AS key
+      FROM ${source}${where.sql} ORDER BY key LIMIT ${MAX_PIVOT_COLUMNS + 1}`,
+    where.params
+  );
+  const keys = result
+    .toArray()
+    .map((row) => Array.from(row.key as Iterable<string | null>));
+  return {
+    keys: keys.slice(0, MAX_PIVOT_COLUMNS),
+    truncated: keys.length > MAX_PIVOT_COLUMNS,
+  };
+}
+
+/**
+ * Builds the query of a pivot: the rows are aggregated with `GROUP BY
+ * ROLLUP` over the row columns, which adds the subtotals, then spread across
+ * one column per key and value. Rows are ordered so that every subtotal
+ * precedes the rows it sums up, the grand total coming last, and carry their
+ * depth in `PIVOT_DEPTH_COLUMN`.
+ */
+export function compilePivotQuery(
+  source: string,
+  config: PivotConfig,
+  where: CompiledWhere,
+  keys: PivotKey[]
+): {sql: string; params: unknown[]} {
+  const rows = config.rows.map(quoteIdentifier);
+  const values: PivotValue[] =
+    config.values.length > 0
+      ? config.values
+      : [{column: '*', aggregation: 'count'}];
+  const depth = quoteIdentifier(PIVOT_DEPTH_COLUMN);
+  const aggregates = values.map(
+    (value) =>
+      `${
+        value.column === '*' ? 'count(*)' : compileAggregate(value)
+      } AS ${quoteIdentifier(getPivotValueName(value))}`
+  );
+
+  const groupBy = [
+    ...(rows.length > 0 ? [`ROLLUP (${rows.join(', ')})`] : []),
+    ...config.columns.map(quoteIdentifier),
+  ];
+  const grouped = `SELECT ${[
+    ...rows,
+    ...(config.columns.length > 0
+      ? [`${compilePivotKey(config.columns)} AS "__pivot"`]
+      : []),
+    ...aggregates,
+    rows.length > 0
+      ? `${rows.length} - (${rows
+          .map((row) => `GROUPING(${row})`)
+          .join(' + ')}) AS ${depth}`
+      : `0 AS ${depth}`,
+  ].join(', ')} FROM ${source}${where.sql}${
+    groupBy.length > 0 ? ` GROUP BY ${groupBy.join(', ')}` : ''
+  }`;
+
+  // Value names suffix the pivot columns, which a single value needs not
+  const labels = getPivotKeyLabels(keys);
+  const cells = keys.flatMap((key, i) =>
+    values.map((value) => {
+      const name = getPivotValueName(value);
+      const filter = `"__pivot" IS NOT DISTINCT FROM ${compilePivotKeyLiteral(
+        key
+      )}`;
+      const alias = values.length > 1 ? `${labels[i]}_${name}` : labels[i];
+      return `first(${quoteIdentifier(
+        name
+      )}) FILTER (WHERE ${filter}) AS ${quoteIdentifier(alias)}`;
+    })
+  );
+  const pivoted =
+    config.columns.length > 0
+      ? `SELECT ${[...rows, depth, ...cells].join(
+          ', '
+        )} FROM (${grouped}) GROUP BY ${[...rows, depth].join(', ')}`
+      : grouped;
+
+  // A row is grouped by its i-th column when its depth is at most i
+  const orderBy = rows.flatMap((row, i) => [
+    i === 0 ? `${depth} = 0` : `${depth} <= ${i} DESC`,
+    row,
+  ]);
+
+  return {
+    sql: `SELECT * FROM (${pivoted})${
+      orderBy.length > 0 ? ` ORDER BY ${orderBy.join(', ')}` : ''
+    }`,
+    params: where.params,
+  };
+}
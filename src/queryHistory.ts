@@ -0,0 +1,147 @@
+/** An executed query, as recorded in the history. */
+export interface HistoryEntry {
+  id: string;
+  query: string;
+  /** Time at which the query was run, in milliseconds since the epoch */
+  executedAt: number;
+  /** Duration of the query in milliseconds */
+  executionTime: number;
+  /** Rows returned or affected by the query, or null when none was reported */
+  rowCount: number | null;
+  status: 'success' | 'error' | 'cancelled';
+  error: string | null;
+}
+
+/** A query saved under a name by the user. */
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+  tags: string[];
+  /** Time at which the query was last saved, in milliseconds since the epoch */
+  savedAt: number;
+}
+
+/**
+ * Where the query history and the saved queries are kept. Methods are
+ * asynchronous so that remote or IndexedDB storages can be plugged in.
+ */
+export interface QueryStorage {
+  /** Returns the history, most recent entry first. */
+  loadHistory(): Promise<HistoryEntry[]>;
+  addHistoryEntry(entry: HistoryEntry): Promise<void>;
+  clearHistory(): Promise<void>;
+  /** Returns the saved queries, sorted by name. */
+  loadSavedQueries(): Promise<SavedQuery[]>;
+  /** Adds a saved query, or replaces the one with the same id. */
+  saveQuery(query: SavedQuery): Promise<void>;
+  deleteSavedQuery(id: string): Promise<void>;
+}
+
+let idCount = 0;
+
+/** Returns an id for a new history entry or saved query. */
+export function createQueryId(): string {
+  return `${Date.now().toString(36)}-${(idCount++).toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+/**
+ * Keeps the history and the saved queries in `localStorage`, as JSON under
+ * keys starting with `keyPrefix`. Only the last `maxHistoryLength` entries of
+ * the history are kept.
+ */
+export class LocalStorageQueryStorage implements QueryStorage {
+  constructor(
+    private keyPrefix = 'duckdb-grid',
+    private maxHistoryLength = 500
+  ) {}
+
+  private read<T>(key: string): T[] {
+    try {
+      const value = localStorage.getItem(`${this.keyPrefix}:${key}`);
+      return value ? (JSON.parse(value) as T[]) : [];
+    } catch {
+      // Unavailable storage or corrupted value
+      return [];
+    }
+  }
+
+  private write<T>(key: string, values: T[]) {
+    localStorage.setItem(`${this.keyPrefix}:${key}`, JSON.stringify(values));
+  }
+
+  async loadHistory() {
+    return this.read<HistoryEntry>('history');
+  }
+
+  async addHistoryEntry(entry: HistoryEntry) {
+    this.write(
+      'history',
+      [entry, ...this.read<HistoryEntry>('history')].slice(
+        0,
+        this.maxHistoryLength
+      )
+    );
+  }
+
+  async clearHistory() {
+    this.write('history', []);
+  }
+
+  async loadSavedQueries() {
+    return this.read<SavedQuery>('saved-queries').sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  async saveQuery(query: SavedQuery) {
+    this.write('saved-queries', [
+      ...this.read<SavedQuery>('saved-queries').filter(
+        ({id}) => id !== query.id
+      ),
+      query,
+    ]);
+  }
+
+  async deleteSavedQuery(id: string) {
+    this.write(
+      'saved-queries',
+      this.read<SavedQuery>('saved-queries').filter((query) => query.id !== id)
+    );
+  }
+}
+
+/**
+ * Whether a history entry or a saved query matches a search: every word of
+ * the search must appear, case-insensitively, in its query, name or tags.
+ */
+export function matchesQuerySearch(
+  item: HistoryEntry | SavedQuery,
+  search: string
+): boolean {
+  const text = (
+    'name' in item
+      ? [item.query, item.name, ...item.tags.map((tag) => `#${tag}`)]
+      : [item.query, item.error ?? '']
+  )
+    .join('\n')
+    .toLowerCase();
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => text.includes(word));
+}
+
+/** Splits comma-separated tags, dropping duplicates and empty ones. */
+export function parseTags(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .split(',')
+        .map((tag) => tag.trim().replace(/^#/, ''))
+        .filter((tag) => tag.length > 0)
+    ),
+  ];
+}
@@ -0,0 +1,120 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {streamQuery} from './stream.js';
+
+/** An operator of a query plan. */
+export interface PlanNode {
+  name: string;
+  /** Details of the operator: table, filters, projections... */
+  extraInfo: Record<string, string>;
+  /** Time spent in the operator in seconds, with EXPLAIN ANALYZE only */
+  timing: number | null;
+  /** Rows produced by the operator, with EXPLAIN ANALYZE only */
+  cardinality: number | null;
+  estimatedCardinality: number | null;
+  children: PlanNode[];
+}
+
+export interface QueryPlan {
+  /** Whether the query was run to measure its operators */
+  analyzed: boolean;
+  /** Time spent in all the operators in seconds, with EXPLAIN ANALYZE only */
+  totalTiming: number | null;
+  roots: PlanNode[];
+}
+
+interface RawPlanNode {
+  name?: string;
+  operator_name?: string;
+  operator_type?: string;
+  operator_timing?: number;
+  operator_cardinality?: number;
+  extra_info?: Record<string, string | string[]>;
+  children?: RawPlanNode[];
+}
+
+function parseNode(raw: RawPlanNode, analyzed: boolean): PlanNode {
+  const extraInfo: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw.extra_info ?? {})) {
+    extraInfo[key] = Array.isArray(value) ? value.join('\n') : String(value);
+  }
+  const estimate = extraInfo['Estimated Cardinality'];
+  delete extraInfo['Estimated Cardinality'];
+
+  return {
+    name: (raw.operator_name ?? raw.name ?? raw.operator_type ?? '').trim(),
+    extraInfo,
+    timing: analyzed ? raw.operator_timing ?? 0 : null,
+    cardinality: analyzed ? raw.operator_cardinality ?? 0 : null,
+    estimatedCardinality:
+      estimate !== undefined && estimate !== '' ? Number(estimate) : null,
+    children: (raw.children ?? []).map((child) => parseNode(child, analyzed)),
+  };
+}
+
+function sumTimings(nodes: PlanNode[]): number {
+  return nodes.reduce(
+    (total, node) => total + (node.timing ?? 0) + sumTimings(node.children),
+    0
+  );
+}
+
+/**
+ * Parses the JSON output of `EXPLAIN (FORMAT JSON)`, a list of operator
+ * trees, or of `EXPLAIN (ANALYZE, FORMAT JSON)`, a profile whose operator
+ * tree sits under an `EXPLAIN_ANALYZE` operator.
+ */
+export function parsePlan(json: string): QueryPlan {
+  const raw = JSON.parse(json) as RawPlanNode | RawPlanNode[];
+  if (Array.isArray(raw)) {
+    return {
+      analyzed: false,
+      totalTiming: null,
+      roots: raw.map((node) => parseNode(node, false)),
+    };
+  }
+
+  let children = raw.children ?? [];
+  if (
+    children.length === 1 &&
+    children[0].operator_type === 'EXPLAIN_ANALYZE'
+  ) {
+    children = children[0].children ?? [];
+  }
+  const roots = children.map((node) => parseNode(node, true));
+  return {analyzed: true, totalTiming: sumTimings(roots), roots};
+}
+
+/**
+ * Explains a statement with `?` or `$1` placeholders bound to `params`. With
+ * `analyze`, the statement is run to measure the timing and cardinality of
+ * its operators. `isStale` stops reading the plan, as with `streamQuery`.
+ */
+export async function explainQuery(
+  connection: AsyncDuckDBConnection,
+  sql: string,
+  params: unknown[],
+  {analyze = false, isStale}: {analyze?: boolean; isStale?: () => boolean} = {}
+): Promise<QueryPlan> {
+  const {table} = await streamQuery(
+    connection,
+    `EXPLAIN (${analyze ? 'ANALYZE, ' : ''}FORMAT JSON) ${sql}`,
+    params,
+    {isStale}
+  );
+  const json = table.getChild('explain_value')?.get(0);
+  if (typeof json !== 'string') {
+    throw new Error('The statement has no query plan');
+  }
+  return parsePlan(json);
+}
+
+/** Lists the operators of a plan, parents first. */
+export function getPlanNodes(plan: QueryPlan): PlanNode[] {
+  const nodes: PlanNode[] = [];
+  const visit = (node: PlanNode) => {
+    nodes.push(node);
+    node.children.forEach(visit);
+  };
+  plan.roots.forEach(visit);
+  return nodes;
+}
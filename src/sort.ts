@@ -0,0 +1,115 @@
+import {Table} from 'apache-arrow';
+import {quoteIdentifier} from './sql.js';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortColumn {
+  column: string;
+  direction: SortDirection;
+}
+
+/**
+ * Cycles the sort direction of a column through ascending, descending and
+ * none. When `multiSort` is false the column replaces the current sort,
+ * otherwise it is added to, updated in or removed from it.
+ */
+export function toggleSort(
+  sort: SortColumn[],
+  column: string,
+  multiSort: boolean
+): SortColumn[] {
+  const current = sort.find((s) => s.column === column);
+  const nextDirection: SortDirection | null = !current
+    ? 'asc'
+    : current.direction === 'asc'
+    ? 'desc'
+    : null;
+
+  if (!multiSort) {
+    return nextDirection ? [{column, direction: nextDirection}] : [];
+  }
+
+  if (!current) {
+    return [...sort, {column, direction: 'asc'}];
+  }
+
+  return nextDirection
+    ? sort.map((s) =>
+        s.column === column ? {column, direction: nextDirection} : s
+      )
+    : sort.filter((s) => s.column !== column);
+}
+
+export function compileOrderBy(sort: SortColumn[]): string {
+  if (sort.length === 0) {
+    return '';
+  }
+
+  return ` ORDER BY ${sort
+    .map(
+      (s) =>
+        `${quoteIdentifier(s.column)} ${
+          s.direction === 'asc' ? 'ASC' : 'DESC'
+        } NULLS LAST`
+    )
+    .join(', ')}`;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) {
+    return 0;
+  }
+  return (a as number) < (b as number) ? -1 : 1;
+}
+
+/**
+ * Sorts the rows of an Arrow table client-side and returns the row indexes in
+ * sorted order. Nulls always come last, as they do with `NULLS LAST`. When
+ * `rowIndexes` is given, only those rows are sorted.
+ */
+export function sortRowIndexes(
+  table: Table,
+  sort: SortColumn[],
+  rowIndexes?: number[]
+): number[] {
+  const indexes = rowIndexes
+    ? [...rowIndexes]
+    : Array.from({length: table.numRows}, (_, i) => i);
+  const keys = sort
+    .map((s) => {
+      const vector = table.getChild(s.column);
+      return vector
+        ? {
+            values: Array.from({length: table.numRows}, (_, i) =>
+              vector.get(i)
+            ),
+            sign: s.direction === 'asc' ? 1 : -1,
+          }
+        : null;
+    })
+    .filter((key): key is NonNullable<typeof key> => key !== null);
+
+  if (keys.length === 0) {
+    return indexes;
+  }
+
+  return indexes.sort((a, b) => {
+    for (const {values, sign} of keys) {
+      const va = values[a];
+      const vb = values[b];
+      const aIsNull = va === null || va === undefined;
+      const bIsNull = vb === null || vb === undefined;
+      if (aIsNull || bIsNull) {
+        if (aIsNull !== bIsNull) {
+          return aIsNull ? 1 : -1;
+        }
+        continue;
+      }
+      const result = compareValues(va, vb) * sign;
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return a - b;
+  });
+}
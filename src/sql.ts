@@ -0,0 +1,207 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {Table} from 'apache-arrow';
+
+/** A possibly database- and schema-qualified table or view name. */
+export interface QualifiedName {
+  database?: string;
+  schema?: string;
+  name: string;
+}
+
+/**
+ * Quotes an identifier (table, column, ...) so it can be safely interpolated
+ * into DuckDB SQL.
+ */
+export function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/** Quotes a string literal so it can be safely interpolated into DuckDB SQL. */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Parses a `[[database.]schema.]name` string. Parts may be double-quoted, in
+ * which case they can contain dots and escaped (doubled) quotes; unquoted
+ * parts are taken as is, surrounding whitespace excluded.
+ */
+export function parseQualifiedName(text: string): QualifiedName {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  // Length of `current` up to the end of its last quoted section, so that
+  // trailing whitespace is only trimmed outside quotes
+  let quotedLength = 0;
+
+  const endPart = () => {
+    const unquotedTail = current.slice(quotedLength).replace(/\s+$/, '');
+    parts.push(current.slice(0, quotedLength) + unquotedTail);
+    current = '';
+    quotedLength = 0;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        quotedLength = current.length;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === '.') {
+      endPart();
+    } else if (!/\s/.test(char) || current !== '') {
+      current += char;
+    }
+  }
+  endPart();
+
+  if (parts.length > 3) {
+    throw new Error(`Invalid qualified name: ${text}`);
+  }
+
+  const [name, schema, database] = parts.reverse();
+  return {database, schema, name};
+}
+
+/**
+ * Quotes every part of a qualified name. Strings are parsed with
+ * `parseQualifiedName` first.
+ */
+export function quoteQualifiedName(name: QualifiedName | string): string {
+  const {
+    database,
+    schema,
+    name: objectName,
+  } = typeof name === 'string' ? parseQualifiedName(name) : name;
+  return [database, schema, objectName]
+    .filter((part): part is string => part !== undefined)
+    .map(quoteIdentifier)
+    .join('.');
+}
+
+/**
+ * Builds the condition selecting a table in the `duckdb_*()` catalog
+ * functions. Unqualified parts default to the current database and schema.
+ */
+export function getCatalogWhere(
+  tableName: string,
+  nameColumn = 'table_name'
+): {where: string; params: string[]} {
+  const {database, schema, name} = parseQualifiedName(tableName);
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (database === undefined) {
+    conditions.push('database_name = current_database()');
+  } else {
+    conditions.push('database_name = ?');
+    params.push(database);
+  }
+  if (schema === undefined) {
+    conditions.push('schema_name = current_schema()');
+  } else {
+    conditions.push('schema_name = ?');
+    params.push(schema);
+  }
+  conditions.push(`${nameColumn} = ?`);
+  params.push(name);
+
+  return {where: conditions.join(' AND '), params};
+}
+
+/** A nested column expanded by `flattenColumns`. */
+export interface FlattenedColumn {
+  column: string;
+  kind: 'struct' | 'list' | 'map';
+}
+
+/**
+ * Builds a query selecting from `source` (a table name or a parenthesized
+ * query) where nested columns are flattened: STRUCT fields become columns,
+ * LIST items become rows, and MAP entries become rows with `<column>_key`
+ * and `<column>_value` columns. LISTs and MAPs flattened together are
+ * unnested side by side.
+ */
+export function flattenColumns(
+  source: string,
+  columns: FlattenedColumn[]
+): string {
+  if (columns.length === 0) {
+    return `SELECT * FROM ${source}`;
+  }
+
+  const expressions = columns.map(({column, kind}) => {
+    const identifier = quoteIdentifier(column);
+    switch (kind) {
+      case 'struct':
+        return `UNNEST(${identifier})`;
+      case 'list':
+        return `UNNEST(${identifier}) AS ${identifier}`;
+      case 'map':
+        return `UNNEST(map_keys(${identifier})) AS ${quoteIdentifier(
+          `${column}_key`
+        )}, UNNEST(map_values(${identifier})) AS ${quoteIdentifier(
+          `${column}_value`
+        )}`;
+    }
+  });
+
+  return `SELECT * EXCLUDE (${columns
+    .map(({column}) => quoteIdentifier(column))
+    .join(', ')}), ${expressions.join(', ')} FROM ${source}`;
+}
+
+/**
+ * Runs a query with `?` placeholders bound to `params` through a prepared
+ * statement. Queries without parameters are run directly.
+ */
+export async function queryWithParams(
+  connection: AsyncDuckDBConnection,
+  sql: string,
+  params: unknown[]
+): Promise<Table> {
+  if (params.length === 0) {
+    return connection.query(sql);
+  }
+
+  const statement = await connection.prepare(sql);
+  try {
+    return await statement.query(...params);
+  } finally {
+    await statement.close();
+  }
+}
+
+/** Settles once the last task run by `runExclusive` on a connection is done. */
+const connectionQueues = new WeakMap<AsyncDuckDBConnection, Promise<unknown>>();
+
+/**
+ * Runs a task once those run before on the same connection are done. The
+ * components sharing a connection send their queries through it: a query
+ * sent while a result is being streamed ends the stream early, without
+ * error, and one sent while a transaction is open runs within it.
+ *
+ * The task must not call `runExclusive` on the same connection, which would
+ * wait for the task itself.
+ */
+export function runExclusive<T>(
+  connection: AsyncDuckDBConnection,
+  task: () => Promise<T>
+): Promise<T> {
+  const result = (connectionQueues.get(connection) ?? Promise.resolve()).then(
+    task
+  );
+  connectionQueues.set(
+    connection,
+    result.catch(() => undefined)
+  );
+  return result;
+}
@@ -0,0 +1,280 @@
+export type SqlTokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'quoted-identifier'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'parameter'
+  | 'bracket'
+  | 'operator'
+  | 'whitespace';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  /** Offset of the token in the text */
+  start: number;
+}
+
+/** Keywords highlighted until those of the connected DuckDB are loaded. */
+export const SQL_KEYWORDS = [
+  'all',
+  'alter',
+  'and',
+  'any',
+  'as',
+  'asc',
+  'attach',
+  'between',
+  'by',
+  'case',
+  'cast',
+  'copy',
+  'create',
+  'cross',
+  'cube',
+  'delete',
+  'desc',
+  'describe',
+  'distinct',
+  'drop',
+  'else',
+  'end',
+  'except',
+  'exclude',
+  'exists',
+  'explain',
+  'false',
+  'filter',
+  'from',
+  'full',
+  'group',
+  'having',
+  'ilike',
+  'in',
+  'index',
+  'inner',
+  'insert',
+  'intersect',
+  'interval',
+  'into',
+  'is',
+  'join',
+  'left',
+  'like',
+  'limit',
+  'macro',
+  'natural',
+  'not',
+  'null',
+  'offset',
+  'on',
+  'or',
+  'order',
+  'outer',
+  'over',
+  'partition',
+  'pivot',
+  'pragma',
+  'qualify',
+  'recursive',
+  'replace',
+  'returning',
+  'right',
+  'rollup',
+  'schema',
+  'select',
+  'set',
+  'show',
+  'summarize',
+  'table',
+  'then',
+  'to',
+  'true',
+  'union',
+  'unnest',
+  'unpivot',
+  'update',
+  'using',
+  'values',
+  'view',
+  'when',
+  'where',
+  'window',
+  'with',
+];
+
+const BRACKETS: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+};
+
+const CLOSING_BRACKETS: Record<string, string> = {
+  ')': '(',
+  ']': '[',
+  '}': '{',
+};
+
+const DOLLAR_QUOTE_PATTERN = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+const PARAMETER_PATTERN = /^(\?|\$\d+|\$[A-Za-z_][A-Za-z0-9_]*)/;
+const NUMBER_PATTERN = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_$]*/;
+
+/**
+ * Splits SQL text into tokens for highlighting. Unterminated strings and
+ * comments extend to the end of the text, so tokens always cover it all.
+ */
+export function tokenizeSql(text: string, keywords: Set<string>): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number) => {
+    tokens.push({type, text: text.slice(i, end), start: i});
+    i = end;
+  };
+
+  const findEnd = (delimiter: string, from: number) => {
+    const index = text.indexOf(delimiter, from);
+    return index === -1 ? text.length : index + delimiter.length;
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text[i];
+    let match: RegExpExecArray | null;
+
+    if (/\s/.test(char)) {
+      push('whitespace', i + /^\s+/.exec(rest)![0].length);
+    } else if (rest.startsWith('--')) {
+      const lineEnd = text.indexOf('\n', i);
+      push('comment', lineEnd === -1 ? text.length : lineEnd);
+    } else if (rest.startsWith('/*')) {
+      push('comment', findEnd('*/', i + 2));
+    } else if (char === "'" || char === '"' || /^[eE]'/.test(rest)) {
+      // E'...' strings accept backslash escapes
+      const isEscapeString = char !== "'" && char !== '"';
+      const quote = isEscapeString ? "'" : char;
+      let end = isEscapeString ? i + 2 : i + 1;
+      while (end < text.length) {
+        if (isEscapeString && text[end] === '\\') {
+          end += 2;
+        } else if (text[end] === quote) {
+          if (text[end + 1] === quote) {
+            end += 2;
+          } else {
+            end++;
+            break;
+          }
+        } else {
+          end++;
+        }
+      }
+      push(
+        quote === '"' ? 'quoted-identifier' : 'string',
+        Math.min(end, text.length)
+      );
+    } else if ((match = DOLLAR_QUOTE_PATTERN.exec(rest))) {
+      push('string', findEnd(match[0], i + match[0].length));
+    } else if ((match = PARAMETER_PATTERN.exec(rest))) {
+      push('parameter', i + match[0].length);
+    } else if ((match = NUMBER_PATTERN.exec(rest))) {
+      push('number', i + match[0].length);
+    } else if ((match = IDENTIFIER_PATTERN.exec(rest))) {
+      push(
+        keywords.has(match[0].toLowerCase()) ? 'keyword' : 'identifier',
+        i + match[0].length
+      );
+    } else if (char in BRACKETS || char in CLOSING_BRACKETS) {
+      push('bracket', i + 1);
+    } else {
+      push('operator', i + 1);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns the offsets of the bracket next to the cursor and of its matching
+ * bracket, or null when the cursor is not next to a bracket. The offset of
+ * the match is null when the bracket is unbalanced.
+ */
+export function findMatchingBracket(
+  tokens: SqlToken[],
+  cursor: number
+): [number, number | null] | null {
+  const brackets = tokens.filter((token) => token.type === 'bracket');
+  // The bracket before the cursor takes precedence over the one after it
+  let index = brackets.findIndex((token) => token.start === cursor - 1);
+  if (index === -1) {
+    index = brackets.findIndex((token) => token.start === cursor);
+  }
+  if (index === -1) {
+    return null;
+  }
+
+  const bracket = brackets[index].text;
+  const isOpening = bracket in BRACKETS;
+  const step = isOpening ? 1 : -1;
+  let depth = 0;
+  for (let i = index; i >= 0 && i < brackets.length; i += step) {
+    const text = brackets[i].text;
+    if (text === bracket) {
+      depth++;
+    } else if (
+      text === (isOpening ? BRACKETS[bracket] : CLOSING_BRACKETS[bracket])
+    ) {
+      depth--;
+      if (depth === 0) {
+        return [brackets[index].start, brackets[i].start];
+      }
+    }
+  }
+  return [brackets[index].start, null];
+}
+
+/**
+ * Locates the error of a DuckDB error message within the statement that
+ * raised it. DuckDB echoes the offending line, possibly truncated with `...`,
+ * followed by a line with a caret under the error:
+ *
+ *     LINE 2: FROM tabel
+ *                  ^
+ *
+ * Returns the offset of the error in the statement, or null when the message
+ * holds no position.
+ */
+export function getErrorOffset(
+  message: string,
+  statement: string
+): number | null {
+  const match = /^LINE (\d+): (.*)\n( *)\^/m.exec(message);
+  if (!match) {
+    return null;
+  }
+
+  const lineNumber = Number(match[1]);
+  const prefixLength = `LINE ${match[1]}: `.length;
+  let snippet = match[2];
+  let caretColumn = match[3].length - prefixLength;
+  if (snippet.startsWith('...')) {
+    snippet = snippet.slice(3);
+    caretColumn -= 3;
+  }
+  snippet = snippet.replace(/\.\.\.$/, '');
+
+  const lines = statement.split('\n');
+  const line = lines[lineNumber - 1];
+  if (line === undefined || caretColumn < 0) {
+    return null;
+  }
+
+  // The snippet may only hold part of the line
+  const snippetStart = Math.max(0, line.indexOf(snippet));
+  const lineStart = lines
+    .slice(0, lineNumber - 1)
+    .reduce((offset, text) => offset + text.length + 1, 0);
+  return lineStart + Math.min(snippetStart + caretColumn, line.length);
+}
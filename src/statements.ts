@@ -0,0 +1,119 @@
+/** A statement of a SQL script, with its position in the script. */
+export interface SqlStatement {
+  text: string;
+  /** Offset of the first character of `text` in the script */
+  start: number;
+  /** Offset following the last character of `text` in the script */
+  end: number;
+}
+
+/** Matches the opening delimiter of a dollar-quoted string: `$$` or `$tag$`. */
+const DOLLAR_QUOTE_PATTERN = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+
+/**
+ * Splits a SQL script into statements on the semicolons that are not part of
+ * a string, a quoted identifier, a comment or a dollar-quoted string.
+ * Statements holding nothing but whitespace and comments are left out.
+ */
+export function splitStatements(script: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let statementStart = 0;
+  // Whether the current statement holds anything but whitespace and comments
+  let hasCode = false;
+  let i = 0;
+
+  const endStatement = (end: number) => {
+    if (hasCode) {
+      const raw = script.slice(statementStart, end);
+      const start = statementStart + (raw.length - raw.trimStart().length);
+      const text = raw.trim();
+      statements.push({text, start, end: start + text.length});
+    }
+    statementStart = end + 1;
+    hasCode = false;
+  };
+
+  while (i < script.length) {
+    const char = script[i];
+    const next = script[i + 1];
+
+    if (char === '-' && next === '-') {
+      const lineEnd = script.indexOf('\n', i);
+      i = lineEnd === -1 ? script.length : lineEnd + 1;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const commentEnd = script.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? script.length : commentEnd + 2;
+      continue;
+    }
+
+    if (char === ';') {
+      endStatement(i);
+      i++;
+      continue;
+    }
+
+    if (!/\s/.test(char)) {
+      hasCode = true;
+    }
+
+    if (char === "'" || char === '"') {
+      // E'...' strings accept backslash escapes
+      const isEscapeString =
+        char === "'" &&
+        /[eE]/.test(script[i - 1] ?? '') &&
+        !/[A-Za-z0-9_]/.test(script[i - 2] ?? '');
+      i++;
+      while (i < script.length) {
+        if (isEscapeString && script[i] === '\\') {
+          i += 2;
+        } else if (script[i] === char) {
+          // Quotes are escaped by doubling them
+          if (script[i + 1] === char) {
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else {
+          i++;
+        }
+      }
+      continue;
+    }
+
+    if (char === '$' && !/[A-Za-z0-9_]/.test(script[i - 1] ?? '')) {
+      const match = DOLLAR_QUOTE_PATTERN.exec(script.slice(i));
+      if (match) {
+        const closeIndex = script.indexOf(match[0], i + match[0].length);
+        i = closeIndex === -1 ? script.length : closeIndex + match[0].length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+  endStatement(script.length);
+
+  return statements;
+}
+
+/**
+ * Returns the statement at a position of the script: the one containing it,
+ * or else the last one before it, or else the first one.
+ */
+export function getStatementAt(
+  statements: SqlStatement[],
+  offset: number
+): SqlStatement | null {
+  let found: SqlStatement | null = null;
+  for (const statement of statements) {
+    if (statement.start > offset) {
+      break;
+    }
+    found = statement;
+  }
+  return found ?? statements[0] ?? null;
+}
@@ -0,0 +1,92 @@
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {RecordBatch, Table} from 'apache-arrow';
+
+export interface StreamOptions {
+  /** Number of rows after which the stream stops being pulled */
+  limit?: number | null;
+  /** Called with the rows received so far, after every record batch */
+  onProgress?: (table: Table) => void;
+  /** Checked after every record batch: the stream stops when it is true */
+  isStale?: () => boolean;
+}
+
+export interface StreamResult {
+  table: Table;
+  /** Whether rows were left out because `limit` was reached */
+  limitReached: boolean;
+}
+
+/**
+ * Runs a query with `?` placeholders bound to `params`, pulling its results
+ * record batch by record batch so that they can be displayed as they arrive.
+ * When the stream is stopped early, the rest of the query is cancelled.
+ */
+export async function streamQuery(
+  connection: AsyncDuckDBConnection,
+  sql: string,
+  params: unknown[],
+  {limit = null, onProgress, isStale}: StreamOptions = {}
+): Promise<StreamResult> {
+  const statement =
+    params.length > 0 ? await connection.prepare(sql) : undefined;
+
+  try {
+    const reader = statement
+      ? await statement.send(...params)
+      : await connection.send(sql, true);
+
+    const batches: RecordBatch[] = [];
+    let rowCount = 0;
+    let limitReached = false;
+    let stopped = false;
+
+    for await (const batch of reader) {
+      if (isStale?.()) {
+        stopped = true;
+        break;
+      }
+
+      if (limit !== null && rowCount >= limit) {
+        // The limit is only reached when more rows follow it
+        if (batch.numRows > 0) {
+          limitReached = true;
+          stopped = true;
+          break;
+        }
+        continue;
+      }
+
+      rowCount += batch.numRows;
+      if (limit !== null && rowCount > limit) {
+        batches.push(batch.slice(0, batch.numRows - (rowCount - limit)));
+        limitReached = true;
+        stopped = true;
+        break;
+      }
+      batches.push(batch);
+      onProgress?.(new Table(reader.schema, batches));
+    }
+
+    if (stopped) {
+      await connection.cancelSent().catch(() => false);
+    }
+
+    return {table: new Table(reader.schema, batches), limitReached};
+  } finally {
+    await statement?.close();
+  }
+}
+
+/**
+ * Whether `table` only appends record batches to `previous`, as the tables
+ * reported by `onProgress` do.
+ */
+export function isAppendedTo(table: Table | null, previous: Table | null) {
+  return (
+    table !== null &&
+    previous !== null &&
+    previous.batches.length > 0 &&
+    previous.batches.length <= table.batches.length &&
+    previous.batches.every((batch, i) => batch === table.batches[i])
+  );
+}
@@ -0,0 +1,449 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {assert} from '@esm-bundle/chai';
+import {
+  Binary,
+  DataType,
+  DateDay,
+  Decimal,
+  Field,
+  Int32,
+  Int64,
+  Interval,
+  IntervalUnit,
+  List,
+  makeData,
+  makeVector,
+  Map_,
+  Struct,
+  Time,
+  TimeUnit,
+  Timestamp,
+  Utf8,
+  Vector,
+} from 'apache-arrow';
+import {formatArrowValue, getArrowValue} from '../arrowValues.js';
+
+const encoder = new TextEncoder();
+
+/** Offsets and bytes of variable-length values, such as strings or BLOBs. */
+function toBinaryBuffers(values: Uint8Array[]) {
+  const valueOffsets = new Int32Array(values.length + 1);
+  values.forEach((value, i) => {
+    valueOffsets[i + 1] = valueOffsets[i] + value.length;
+  });
+  const data = new Uint8Array(valueOffsets[values.length]);
+  values.forEach((value, i) => data.set(value, valueOffsets[i]));
+  return {valueOffsets, data};
+}
+
+function makeUtf8Data(values: string[]) {
+  return makeData({
+    type: new Utf8(),
+    length: values.length,
+    ...toBinaryBuffers(values.map((value) => encoder.encode(value))),
+  });
+}
+
+/** Splits 128-bit integers into the little-endian words of Arrow. */
+function toDecimalWords(values: bigint[]) {
+  const words = new BigInt64Array(values.length * 2);
+  values.forEach((value, i) => {
+    words[2 * i] = BigInt.asIntN(64, value);
+    words[2 * i + 1] = BigInt.asIntN(64, value >> BigInt(64));
+  });
+  return new Uint32Array(words.buffer);
+}
+
+/** Reads and formats every value of a vector, in the `en-US` locale. */
+function readAll(vector: Vector, options = {}) {
+  return Array.from({length: vector.length}, (_, i) => {
+    const value = getArrowValue(vector, i);
+    return {
+      value,
+      text: formatArrowValue(value, vector.type, {
+        locale: 'en-US',
+        ...options,
+      }),
+    };
+  });
+}
+
+interface Case {
+  name: string;
+  vector: () => Vector;
+  values: unknown[];
+  texts: string[];
+}
+
+const cases: Case[] = [
+  {
+    name: 'BIGINT',
+    vector: () =>
+      makeVector(
+        new BigInt64Array([
+          BigInt(0),
+          BigInt('9007199254740993'),
+          BigInt('-9223372036854775808'),
+        ])
+      ),
+    values: [
+      BigInt(0),
+      BigInt('9007199254740993'),
+      BigInt('-9223372036854775808'),
+    ],
+    texts: ['0', '9,007,199,254,740,993', '-9,223,372,036,854,775,808'],
+  },
+  {
+    name: 'BIGINT with NULLs',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Int64(),
+          length: 2,
+          nullCount: 1,
+          nullBitmap: new Uint8Array([0b10]),
+          data: new BigInt64Array([BigInt(0), BigInt(42)]),
+        })
+      ),
+    values: [null, BigInt(42)],
+    texts: ['NULL', '42'],
+  },
+  {
+    name: 'DECIMAL(18,3)',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Decimal(3, 18, 128),
+          length: 4,
+          data: toDecimalWords([
+            BigInt(1234567),
+            BigInt(-5),
+            BigInt(0),
+            BigInt('123456789012345678'),
+          ]),
+        })
+      ),
+    values: ['1234.567', '-0.005', '0.000', '123456789012345.678'],
+    texts: ['1,234.567', '-0.005', '0.000', '123,456,789,012,345.678'],
+  },
+  {
+    name: 'HUGEINT, as DECIMAL(38,0)',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Decimal(0, 38, 128),
+          length: 2,
+          data: toDecimalWords([
+            BigInt('170141183460469231731687303715884105727'),
+            BigInt(-1),
+          ]),
+        })
+      ),
+    values: [BigInt('170141183460469231731687303715884105727'), BigInt(-1)],
+    texts: ['170,141,183,460,469,231,731,687,303,715,884,105,727', '-1'],
+  },
+  {
+    name: 'DATE',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new DateDay(),
+          length: 3,
+          data: new Int32Array([0, 19724, -1]),
+        })
+      ),
+    values: ['1970-01-01', '2024-01-02', '1969-12-31'],
+    texts: ['1970-01-01', '2024-01-02', '1969-12-31'],
+  },
+  {
+    name: 'TIME',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Time(TimeUnit.MICROSECOND, 64),
+          length: 3,
+          data: new BigInt64Array([
+            BigInt(0),
+            BigInt('45296789000'),
+            BigInt('86399999999'),
+          ]),
+        })
+      ),
+    values: ['00:00:00', '12:34:56.789', '23:59:59.999999'],
+    texts: ['00:00:00', '12:34:56.789', '23:59:59.999999'],
+  },
+  ...(
+    [
+      [TimeUnit.SECOND, '1704164645', ''],
+      [TimeUnit.MILLISECOND, '1704164645123', '.123'],
+      [TimeUnit.MICROSECOND, '1704164645123456', '.123456'],
+      [TimeUnit.NANOSECOND, '1704164645123456789', '.123456789'],
+    ] as [TimeUnit, string, string][]
+  ).map(
+    ([unit, value, fraction]): Case => ({
+      name: `TIMESTAMP in ${TimeUnit[unit]}`,
+      vector: () =>
+        makeVector(
+          makeData({
+            type: new Timestamp(unit),
+            length: 1,
+            data: new BigInt64Array([BigInt(value)]),
+          })
+        ),
+      values: [`2024-01-02 03:04:05${fraction}`],
+      texts: [`2024-01-02 03:04:05${fraction}`],
+    })
+  ),
+  {
+    name: 'TIMESTAMP before 1970',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Timestamp(TimeUnit.MICROSECOND),
+          length: 1,
+          data: new BigInt64Array([BigInt(-1)]),
+        })
+      ),
+    values: ['1969-12-31 23:59:59.999999'],
+    texts: ['1969-12-31 23:59:59.999999'],
+  },
+  {
+    name: 'TIMESTAMP WITH TIME ZONE',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Timestamp(TimeUnit.MICROSECOND, 'UTC'),
+          length: 1,
+          data: new BigInt64Array([BigInt('1704164645123456')]),
+        })
+      ),
+    values: ['2024-01-02 03:04:05.123456Z'],
+    texts: ['2024-01-02 03:04:05.123456Z'],
+  },
+  {
+    name: 'INTERVAL in YEAR_MONTH',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Interval(IntervalUnit.YEAR_MONTH),
+          length: 3,
+          data: new Int32Array([14, -1, 0]),
+        })
+      ),
+    values: [
+      {months: 14, days: 0, nanoseconds: BigInt(0)},
+      {months: -1, days: 0, nanoseconds: BigInt(0)},
+      {months: 0, days: 0, nanoseconds: BigInt(0)},
+    ],
+    texts: ['1 year 2 months', '-1 month', '00:00:00'],
+  },
+  {
+    name: 'INTERVAL in DAY_TIME',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Interval(IntervalUnit.DAY_TIME),
+          length: 2,
+          data: new Int32Array([3, 3600000, 0, 1500]),
+        })
+      ),
+    values: [
+      {months: 0, days: 3, nanoseconds: BigInt('3600000000000')},
+      {months: 0, days: 0, nanoseconds: BigInt('1500000000')},
+    ],
+    texts: ['3 days 01:00:00', '00:00:01.5'],
+  },
+  {
+    name: 'INTERVAL in MONTH_DAY_NANO',
+    vector: () => {
+      const data = new DataView(new ArrayBuffer(32));
+      data.setInt32(0, 25, true);
+      data.setInt32(4, 1, true);
+      data.setBigInt64(8, BigInt('3723000000001'), true);
+      data.setInt32(16, 0, true);
+      data.setInt32(20, -2, true);
+      data.setBigInt64(24, BigInt(0), true);
+      return makeVector(
+        makeData({
+          type: new Interval(IntervalUnit.MONTH_DAY_NANO),
+          length: 2,
+          data: new Int32Array(data.buffer),
+        })
+      );
+    },
+    values: [
+      {months: 25, days: 1, nanoseconds: BigInt('3723000000001')},
+      {months: 0, days: -2, nanoseconds: BigInt(0)},
+    ],
+    texts: ['2 years 1 month 1 day 01:02:03.000000001', '-2 days'],
+  },
+  {
+    name: 'BLOB',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new Binary(),
+          length: 2,
+          ...toBinaryBuffers([
+            new Uint8Array([0x61, 0x00, 0xff, 0x5c]),
+            new Uint8Array([]),
+          ]),
+        })
+      ),
+    values: [new Uint8Array([0x61, 0x00, 0xff, 0x5c]), new Uint8Array([])],
+    texts: ['a\\x00\\xFF\\x5C', ''],
+  },
+  {
+    name: 'LIST',
+    vector: () =>
+      makeVector(
+        makeData({
+          type: new List(new Field('item', new Int32(), true)),
+          length: 3,
+          valueOffsets: new Int32Array([0, 3, 3, 4]),
+          child: makeData({
+            type: new Int32(),
+            length: 4,
+            nullCount: 1,
+            nullBitmap: new Uint8Array([0b1011]),
+            data: new Int32Array([1, 2, 0, 1000]),
+          }),
+        })
+      ),
+    values: [[1, 2, null], [], [1000]],
+    texts: ['[1, 2, NULL]', '[]', '[1000]'],
+  },
+  {
+    name: 'MAP',
+    vector: () => {
+      const entries = new Struct([
+        new Field('key', new Utf8(), false),
+        new Field('value', new Int32(), true),
+      ]);
+      return makeVector(
+        makeData({
+          type: new Map_(new Field('entries', entries, false)),
+          length: 2,
+          valueOffsets: new Int32Array([0, 2, 2]),
+          child: makeData({
+            type: entries,
+            length: 2,
+            children: [
+              makeUtf8Data(['a', "it's"]),
+              makeData({type: new Int32(), data: new Int32Array([1, 2])}),
+            ],
+          }),
+        })
+      );
+    },
+    values: [
+      new Map<unknown, unknown>([
+        ['a', 1],
+        ["it's", 2],
+      ]),
+      new Map(),
+    ],
+    texts: ["{'a'=1, 'it''s'=2}", '{}'],
+  },
+  {
+    name: 'STRUCT',
+    vector: () => {
+      const type = new Struct([
+        new Field('name', new Utf8(), true),
+        new Field('tags', new List(new Field('item', new Utf8(), true)), true),
+      ]);
+      return makeVector(
+        makeData({
+          type,
+          length: 1,
+          children: [
+            makeUtf8Data(['duck']),
+            makeData({
+              type: type.children[1].type,
+              length: 1,
+              valueOffsets: new Int32Array([0, 2]),
+              child: makeUtf8Data(['a', 'b']),
+            }),
+          ],
+        })
+      );
+    },
+    values: [{name: 'duck', tags: ['a', 'b']}],
+    texts: ["{'name': 'duck', 'tags': ['a', 'b']}"],
+  },
+];
+
+suite('getArrowValue and formatArrowValue', () => {
+  for (const {name, vector, values, texts} of cases) {
+    test(name, () => {
+      const results = readAll(vector());
+      assert.deepEqual(
+        results.map(({value}) => value),
+        values
+      );
+      assert.deepEqual(
+        results.map(({text}) => text),
+        texts
+      );
+    });
+  }
+
+  test('reads values across chunks', () => {
+    const vector = makeVector(new Int32Array([1, 2])).concat(
+      makeVector(new Int32Array([3]))
+    );
+    assert.deepEqual(
+      readAll(vector).map(({value}) => value),
+      [1, 2, 3]
+    );
+  });
+});
+
+suite('formatArrowValue options', () => {
+  const zoned = new Timestamp(TimeUnit.MICROSECOND, 'UTC');
+
+  const timeZones: [string, string, string][] = [
+    [
+      '2024-01-02 03:04:05.123Z',
+      'Europe/Paris',
+      '2024-01-02 04:04:05.123+01:00',
+    ],
+    ['2024-07-02 03:04:05Z', 'Europe/Paris', '2024-07-02 05:04:05+02:00'],
+    ['2024-01-02 03:04:05Z', 'Asia/Kolkata', '2024-01-02 08:34:05+05:30'],
+    ['2024-01-02 03:04:05Z', 'America/New_York', '2024-01-01 22:04:05-05:00'],
+    ['2024-01-02 03:04:05Z', 'UTC', '2024-01-02 03:04:05+00:00'],
+    ['2024-01-02 03:04:05Z', 'Not/AZone', '2024-01-02 03:04:05Z'],
+    ['infinity', 'Europe/Paris', 'infinity'],
+  ];
+  for (const [value, timeZone, expected] of timeZones) {
+    test(`converts ${value} to ${timeZone}`, () => {
+      assert.equal(formatArrowValue(value, zoned, {timeZone}), expected);
+    });
+  }
+
+  test('leaves timestamps without time zone as is', () => {
+    assert.equal(
+      formatArrowValue('2024-01-02 03:04:05', new Timestamp(TimeUnit.SECOND), {
+        timeZone: 'Europe/Paris',
+      }),
+      '2024-01-02 03:04:05'
+    );
+  });
+
+  const locales: [unknown, DataType, string, string][] = [
+    [1234.5, new Int32(), 'de-DE', '1.234,5'],
+    [BigInt('1234567'), new Int64(), 'fr-FR', '1\u202f234\u202f567'],
+    ['-1234567.891', new Decimal(3, 10, 128), 'de-DE', '-1.234.567,891'],
+    ['1234.5', new Decimal(1, 10, 128), 'not a locale!', '1,234.5'],
+  ];
+  for (const [value, type, locale, expected] of locales) {
+    test(`formats ${String(value)} in ${locale}`, () => {
+      assert.equal(formatArrowValue(value, type, {locale}), expected);
+    });
+  }
+});
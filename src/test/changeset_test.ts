@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {assert} from '@esm-bundle/chai';
+import {compileChangeset, EditableTable, getRowKey} from '../changeset.js';
+
+suite('compileChangeset', () => {
+  const table: EditableTable = {
+    columns: [
+      {name: 'id', type: 'INTEGER', nullable: false},
+      {name: 'name', type: 'VARCHAR', nullable: true},
+      {name: 'price', type: 'DECIMAL(10,2)', nullable: true},
+    ],
+    primaryKey: ['id'],
+  };
+
+  test('deletes, then updates, then inserts', () => {
+    const statements = compileChangeset('main.items', table, {
+      updates: {[getRowKey(['2'])]: {name: 'b', price: null}},
+      deletes: [getRowKey(['1'])],
+      inserts: [{id: 'new-1', values: {id: '3', name: 'c'}}],
+    });
+    assert.deepEqual(statements, [
+      {
+        sql: 'DELETE FROM "main"."items" WHERE "id" = CAST(? AS INTEGER)',
+        params: ['1'],
+        rowKey: '["1"]',
+        expectsRow: true,
+      },
+      {
+        sql: 'UPDATE "main"."items" SET "name" = CAST(? AS VARCHAR), "price" = CAST(? AS DECIMAL(10,2)) WHERE "id" = CAST(? AS INTEGER)',
+        params: ['b', null, '2'],
+        rowKey: '["2"]',
+        expectsRow: true,
+      },
+      {
+        sql: 'INSERT INTO "main"."items" ("id", "name") VALUES (CAST(? AS INTEGER), CAST(? AS VARCHAR))',
+        params: ['3', 'c'],
+        rowKey: 'new-1',
+        expectsRow: false,
+      },
+    ]);
+  });
+
+  test('skips the updates of deleted rows', () => {
+    const rowKey = getRowKey(['1']);
+    const statements = compileChangeset('items', table, {
+      updates: {[rowKey]: {name: 'a'}, [getRowKey(['2'])]: {}},
+      deletes: [rowKey],
+      inserts: [],
+    });
+    assert.deepEqual(
+      statements.map(({sql}) => sql),
+      ['DELETE FROM "items" WHERE "id" = CAST(? AS INTEGER)']
+    );
+  });
+
+  test('inserts rows without values with their defaults', () => {
+    const statements = compileChangeset('items', table, {
+      updates: {},
+      deletes: [],
+      inserts: [{id: 'new-1', values: {}}],
+    });
+    assert.deepEqual(statements, [
+      {
+        sql: 'INSERT INTO "items" DEFAULT VALUES',
+        params: [],
+        rowKey: 'new-1',
+        expectsRow: false,
+      },
+    ]);
+  });
+
+  test('matches rows on all the columns of a composite key', () => {
+    const compositeTable: EditableTable = {
+      columns: [
+        {name: 'order', type: 'BIGINT', nullable: false},
+        {name: 'line', type: 'SMALLINT', nullable: false},
+        {name: 'quantity', type: 'INTEGER', nullable: true},
+      ],
+      primaryKey: ['order', 'line'],
+    };
+    const statements = compileChangeset('lines', compositeTable, {
+      updates: {[getRowKey(['9007199254740993', '2'])]: {quantity: '5'}},
+      deletes: [getRowKey(['7', '1'])],
+      inserts: [],
+    });
+    assert.deepEqual(
+      statements.map(({sql, params}) => ({sql, params})),
+      [
+        {
+          sql: 'DELETE FROM "lines" WHERE "order" = CAST(? AS BIGINT) AND "line" = CAST(? AS SMALLINT)',
+          params: ['7', '1'],
+        },
+        {
+          sql: 'UPDATE "lines" SET "quantity" = CAST(? AS INTEGER) WHERE "order" = CAST(? AS BIGINT) AND "line" = CAST(? AS SMALLINT)',
+          params: ['5', '9007199254740993', '2'],
+        },
+      ]
+    );
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {assert} from '@esm-bundle/chai';
+import {
+  DataType,
+  DateDay,
+  Decimal,
+  Float64,
+  Int32,
+  Int64,
+  TimeUnit,
+  Timestamp,
+  Utf8,
+} from 'apache-arrow';
+import {
+  ColumnFilter,
+  compileWhere,
+  describeFilter,
+  getValueFilter,
+} from '../filter.js';
+
+suite('getValueFilter', () => {
+  const cases: [string, DataType, unknown, ColumnFilter | null][] = [
+    ['NULL', new Int32(), null, {column: 'c', kind: 'null', isNull: true}],
+    [
+      'INTEGER',
+      new Int32(),
+      42,
+      {column: 'c', kind: 'range', min: 42, max: 42},
+    ],
+    [
+      'DOUBLE',
+      new Float64(),
+      0.1,
+      {column: 'c', kind: 'range', min: 0.1, max: 0.1},
+    ],
+    ['DOUBLE NaN', new Float64(), NaN, null],
+    [
+      'BIGINT',
+      new Int64(),
+      BigInt('9007199254740993'),
+      {column: 'c', kind: 'equals', value: '9007199254740993'},
+    ],
+    [
+      'HUGEINT',
+      new Decimal(0, 38, 128),
+      BigInt('170141183460469231731687303715884105727'),
+      {
+        column: 'c',
+        kind: 'equals',
+        value: '170141183460469231731687303715884105727',
+      },
+    ],
+    [
+      'DECIMAL',
+      new Decimal(3, 18, 128),
+      '123456789012345.678',
+      {column: 'c', kind: 'equals', value: '123456789012345.678'},
+    ],
+    [
+      'TIMESTAMP',
+      new Timestamp(TimeUnit.NANOSECOND),
+      '2024-01-02 03:04:05.123456789',
+      {column: 'c', kind: 'equals', value: '2024-01-02 03:04:05.123456789'},
+    ],
+    [
+      'TIMESTAMP WITH TIME ZONE',
+      new Timestamp(TimeUnit.MICROSECOND, 'UTC'),
+      '2024-01-02 03:04:05Z',
+      {column: 'c', kind: 'equals', value: '2024-01-02 03:04:05Z'},
+    ],
+    [
+      'DATE',
+      new DateDay(),
+      '2024-01-02',
+      {column: 'c', kind: 'date-range', from: '2024-01-02', to: '2024-01-02'},
+    ],
+    [
+      'VARCHAR',
+      new Utf8(),
+      'a.b (c)',
+      {column: 'c', kind: 'text', operator: 'regex', value: '^a\\.b \\(c\\)$'},
+    ],
+  ];
+  for (const [name, type, value, expected] of cases) {
+    test(name, () => {
+      assert.deepEqual(getValueFilter('c', type, value), expected);
+    });
+  }
+
+  test('uses the pick-list of the column', () => {
+    assert.deepEqual(getValueFilter('c', new Utf8(), 'a', ['a', 'b']), {
+      column: 'c',
+      kind: 'enum',
+      values: ['a'],
+    });
+  });
+});
+
+suite('compileWhere', () => {
+  test('compares exact values as parameters', () => {
+    assert.deepEqual(
+      compileWhere([
+        {column: 'id', kind: 'equals', value: '9007199254740993'},
+        {column: 'n', kind: 'range', min: 1, max: null},
+      ]),
+      {
+        sql: ' WHERE "id" = ? AND "n" >= ?',
+        params: ['9007199254740993', 1],
+      }
+    );
+  });
+
+  test('is empty without filters', () => {
+    assert.deepEqual(compileWhere([]), {sql: '', params: []});
+  });
+});
+
+suite('describeFilter', () => {
+  const cases: [ColumnFilter, string][] = [
+    [
+      {column: 'n', kind: 'text', operator: 'contains', value: 'a'},
+      'n contains "a"',
+    ],
+    [
+      {column: 'n', kind: 'text', operator: 'regex', value: '^a$'},
+      'n matches /^a$/',
+    ],
+    [{column: 'n', kind: 'range', min: 1, max: 5}, '1 ≤ n ≤ 5'],
+    [{column: 'n', kind: 'range', min: 1, max: null}, 'n ≥ 1'],
+    [{column: 'n', kind: 'range', min: null, max: 0}, 'n ≤ 0'],
+    [{column: 'n', kind: 'range', min: 2, max: 2}, 'n = 2'],
+    [
+      {column: 'd', kind: 'date-range', from: '2024-01-01', to: null},
+      'd ≥ 2024-01-01',
+    ],
+    [{column: 'n', kind: 'null', isNull: true}, 'n is NULL'],
+    [{column: 'n', kind: 'null', isNull: false}, 'n is not NULL'],
+    [{column: 'e', kind: 'enum', values: ['a']}, 'e = a'],
+    [{column: 'e', kind: 'enum', values: ['a', 'b']}, 'e in (a, b)'],
+    [
+      {column: 'id', kind: 'equals', value: '9007199254740993'},
+      'id = 9007199254740993',
+    ],
+  ];
+  for (const [filter, expected] of cases) {
+    test(expected, () => {
+      assert.equal(describeFilter(filter), expected);
+    });
+  }
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {assert} from '@esm-bundle/chai';
+import {compilePivotQuery} from '../pivot.js';
+
+suite('compilePivotQuery', () => {
+  const where = {sql: '', params: []};
+
+  test('aggregates the whole table without rows', () => {
+    assert.deepEqual(
+      compilePivotQuery(
+        '"sales"',
+        {
+          rows: [],
+          columns: ['region'],
+          values: [{column: 'amount', aggregation: 'sum'}],
+        },
+        {sql: ' WHERE "year" = ?', params: [2024]},
+        [['EU'], [null]]
+      ),
+      {
+        sql: `SELECT * FROM (SELECT "__depth", first("sum(amount)") FILTER (WHERE "__pivot" IS NOT DISTINCT FROM CAST(['EU'] AS VARCHAR[])) AS "EU", first("sum(amount)") FILTER (WHERE "__pivot" IS NOT DISTINCT FROM CAST([NULL] AS VARCHAR[])) AS "NULL" FROM (SELECT [CAST("region" AS VARCHAR)] AS "__pivot", sum("amount") AS "sum(amount)", 0 AS "__depth" FROM "sales" WHERE "year" = ? GROUP BY "region") GROUP BY "__depth")`,
+        params: [2024],
+      }
+    );
+  });
+
+  test('counts the rows of each group without columns nor values', () => {
+    assert.equal(
+      compilePivotQuery(
+        '"sales"',
+        {rows: ['year'], columns: [], values: []},
+        where,
+        []
+      ).sql,
+      'SELECT * FROM (SELECT "year", count(*) AS "count(*)", 1 - (GROUPING("year")) AS "__depth" FROM "sales" GROUP BY ROLLUP ("year")) ORDER BY "__depth" = 0, "year"'
+    );
+  });
+
+  test('suffixes the pivot columns with the names of multiple values', () => {
+    assert.equal(
+      compilePivotQuery(
+        '"sales"',
+        {
+          rows: ['year'],
+          columns: ['region', 'channel'],
+          values: [
+            {column: 'amount', aggregation: 'sum'},
+            {column: 'customer', aggregation: 'count_distinct'},
+          ],
+        },
+        where,
+        [['EU', 'web']]
+      ).sql,
+      `SELECT * FROM (SELECT "year", "__depth", first("sum(amount)") FILTER (WHERE "__pivot" IS NOT DISTINCT FROM CAST(['EU', 'web'] AS VARCHAR[])) AS "EU / web_sum(amount)", first("count(DISTINCT customer)") FILTER (WHERE "__pivot" IS NOT DISTINCT FROM CAST(['EU', 'web'] AS VARCHAR[])) AS "EU / web_count(DISTINCT customer)" FROM (SELECT "year", [CAST("region" AS VARCHAR), CAST("channel" AS VARCHAR)] AS "__pivot", sum("amount") AS "sum(amount)", count(DISTINCT "customer") AS "count(DISTINCT customer)", 1 - (GROUPING("year")) AS "__depth" FROM "sales" GROUP BY ROLLUP ("year"), "region", "channel") GROUP BY "year", "__depth") ORDER BY "__depth" = 0, "year"`
+    );
+  });
+
+  test('numbers the pivot columns whose labels are the same', () => {
+    const {sql} = compilePivotQuery(
+      '"sales"',
+      {rows: [], columns: ['p', 'q'], values: []},
+      where,
+      [
+        ['a / b', 'c'],
+        ['a', 'b / c'],
+        ['NULL', 'x'],
+        [null, 'x'],
+      ]
+    );
+    assert.deepEqual(
+      [
+        ...sql.matchAll(
+          /FILTER \(WHERE .*? IS NOT DISTINCT FROM (.*?)\) AS (".*?")/g
+        ),
+      ].map(([, key, column]) => [key, column]),
+      [
+        ["CAST(['a / b', 'c'] AS VARCHAR[])", '"a / b / c"'],
+        ["CAST(['a', 'b / c'] AS VARCHAR[])", '"a / b / c (2)"'],
+        ["CAST(['NULL', 'x'] AS VARCHAR[])", '"NULL / x"'],
+        ["CAST([NULL, 'x'] AS VARCHAR[])", '"NULL / x (2)"'],
+      ]
+    );
+  });
+
+  test('orders the subtotals before their rows and the grand total last', () => {
+    const {sql} = compilePivotQuery(
+      '"sales"',
+      {rows: ['year', 'region', 'channel'], columns: [], values: []},
+      where,
+      []
+    );
+    assert.match(
+      sql,
+      / ORDER BY "__depth" = 0, "year", "__depth" <= 1 DESC, "region", "__depth" <= 2 DESC, "channel"$/
+    );
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {AsyncDuckDBConnection} from '@duckdb/duckdb-wasm';
+import {assert} from '@esm-bundle/chai';
+import {
+  parseQualifiedName,
+  QualifiedName,
+  quoteIdentifier,
+  quoteLiteral,
+  quoteQualifiedName,
+  runExclusive,
+} from '../sql.js';
+
+suite('quoteIdentifier', () => {
+  const cases: [string, string][] = [
+    ['users', '"users"'],
+    ['select', '"select"'],
+    ['My Table', '"My Table"'],
+    ['a.b', '"a.b"'],
+    ['say "hi"', '"say ""hi"""'],
+    ['"', '""""'],
+    ['données', '"données"'],
+    ['表', '"表"'],
+    ['', '""'],
+  ];
+  for (const [identifier, expected] of cases) {
+    test(JSON.stringify(identifier), () => {
+      assert.equal(quoteIdentifier(identifier), expected);
+    });
+  }
+});
+
+suite('quoteLiteral', () => {
+  const cases: [string, string][] = [
+    ['abc', "'abc'"],
+    ["it's", "'it''s'"],
+    ["''", "''''''"],
+    ['"quoted"', '\'"quoted"\''],
+    ['line\nbreak', "'line\nbreak'"],
+    ['🦆', "'🦆'"],
+  ];
+  for (const [value, expected] of cases) {
+    test(JSON.stringify(value), () => {
+      assert.equal(quoteLiteral(value), expected);
+    });
+  }
+});
+
+suite('parseQualifiedName', () => {
+  const cases: [string, QualifiedName][] = [
+    ['users', {database: undefined, schema: undefined, name: 'users'}],
+    ['main.users', {database: undefined, schema: 'main', name: 'users'}],
+    ['db.main.users', {database: 'db', schema: 'main', name: 'users'}],
+    ['"a.b"', {database: undefined, schema: undefined, name: 'a.b'}],
+    [
+      '"my.db"."my.schema"."my.table"',
+      {
+        database: 'my.db',
+        schema: 'my.schema',
+        name: 'my.table',
+      },
+    ],
+    [
+      '"say ""hi"""',
+      {database: undefined, schema: undefined, name: 'say "hi"'},
+    ],
+    ['"select"."from"', {database: undefined, schema: 'select', name: 'from'}],
+    ['select', {database: undefined, schema: undefined, name: 'select'}],
+    ['données.表', {database: undefined, schema: 'données', name: '表'}],
+    ['  main . users  ', {database: undefined, schema: 'main', name: 'users'}],
+    ['" padded "', {database: undefined, schema: undefined, name: ' padded '}],
+    ['"My Table"', {database: undefined, schema: undefined, name: 'My Table'}],
+  ];
+  for (const [text, expected] of cases) {
+    test(JSON.stringify(text), () => {
+      assert.deepEqual(parseQualifiedName(text), expected);
+    });
+  }
+
+  test('rejects more than three parts', () => {
+    assert.throws(
+      () => parseQualifiedName('a.b.c.d'),
+      /Invalid qualified name/
+    );
+  });
+});
+
+suite('quoteQualifiedName', () => {
+  const cases: [QualifiedName | string, string][] = [
+    [{name: 'users'}, '"users"'],
+    [{schema: 'main', name: 'users'}, '"main"."users"'],
+    [{database: 'db', schema: 'main', name: 'users'}, '"db"."main"."users"'],
+    [{schema: 'a.b', name: 'c"d'}, '"a.b"."c""d"'],
+    ['db.main.users', '"db"."main"."users"'],
+    ['"a.b".c', '"a.b"."c"'],
+    ['"select"', '"select"'],
+  ];
+  for (const [name, expected] of cases) {
+    test(JSON.stringify(name), () => {
+      assert.equal(quoteQualifiedName(name), expected);
+    });
+  }
+});
+
+suite('qualified name round-trips', () => {
+  const names: QualifiedName[] = [
+    {database: 'db', schema: 'main', name: 'users'},
+    {database: 'my.db', schema: 'my "schema"', name: 'table.with.dots'},
+    {database: 'select', schema: 'from', name: 'where'},
+    {database: 'données', schema: '스키마', name: '🦆 ducks'},
+    {database: '""', schema: '.', name: ' spaced '},
+  ];
+  for (const name of names) {
+    test(`parses the quoted ${JSON.stringify(name)} back`, () => {
+      assert.deepEqual(parseQualifiedName(quoteQualifiedName(name)), name);
+    });
+  }
+
+  const texts = [
+    '"db"."main"."users"',
+    '"a.b"."c""d"',
+    '"données"."表"',
+    '"select"',
+  ];
+  for (const text of texts) {
+    test(`quotes the parsed ${text} back`, () => {
+      assert.equal(quoteQualifiedName(parseQualifiedName(text)), text);
+    });
+  }
+});
+
+suite('runExclusive', () => {
+  // Only used as the key of its queue
+  const connection = () => ({} as AsyncDuckDBConnection);
+  const delay = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  test('runs the tasks of a connection one after the other', async () => {
+    const shared = connection();
+    const events: string[] = [];
+    const task = (name: string, ms: number) => async () => {
+      events.push(`${name} start`);
+      await delay(ms);
+      events.push(`${name} end`);
+      return name;
+    };
+    const results = await Promise.all([
+      runExclusive(shared, task('a', 20)),
+      runExclusive(shared, task('b', 0)),
+    ]);
+    assert.deepEqual(results, ['a', 'b']);
+    assert.deepEqual(events, ['a start', 'a end', 'b start', 'b end']);
+  });
+
+  test('runs the next tasks after a failure', async () => {
+    const shared = connection();
+    const failed = runExclusive(shared, () => Promise.reject(new Error('x')));
+    const next = runExclusive(shared, async () => 'next');
+    await failed.then(
+      () => assert.fail('The task should fail'),
+      (err: Error) => assert.equal(err.message, 'x')
+    );
+    assert.equal(await next, 'next');
+  });
+
+  test('does not wait for the tasks of other connections', async () => {
+    const events: string[] = [];
+    const slow = runExclusive(connection(), async () => {
+      await delay(20);
+      events.push('slow');
+    });
+    await runExclusive(connection(), async () => {
+      events.push('fast');
+    });
+    await slow;
+    assert.deepEqual(events, ['fast', 'slow']);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {chromeLauncher} from '@web/test-runner';
+
+export default {
+  // Tests are compiled by `tsc` along with the sources
+  files: ['dist/test/**/*_test.js'],
+  nodeResolve: true,
+  preserveSymlinks: true,
+  browsers: [
+    chromeLauncher({
+      // Containers, such as CI runners, have no user namespaces to sandbox
+      launchOptions: {args: ['--no-sandbox', '--disable-setuid-sandbox']},
+    }),
+  ],
+  testFramework: {
+    config: {
+      ui: 'tdd',
+      timeout: '2000',
+    },
+  },
+};